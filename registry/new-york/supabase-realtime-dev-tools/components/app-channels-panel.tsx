@@ -0,0 +1,135 @@
+import React, { memo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { Ear, EarOff, RefreshCw } from "lucide-react";
+import type { DiscoveredChannel } from "@/registry/new-york/supabase-realtime-dev-tools/lib/channel-tap";
+
+interface AppChannelsPanelProps {
+  readonly channels: readonly DiscoveredChannel[];
+  readonly tappedTopics: readonly string[];
+  // False when the client has no `getChannels()`.
+  readonly supported: boolean;
+  readonly onRefresh: () => void;
+  readonly onTap: (topic: string) => void;
+  readonly onUntap: (topic: string) => void;
+}
+
+const STATE_COLORS: Record<string, string> = {
+  joined: "bg-green-500",
+  joining: "bg-yellow-500",
+  leaving: "bg-yellow-500",
+  errored: "bg-red-500",
+  closed: "bg-gray-400",
+};
+
+const AppChannelsPanel = memo<AppChannelsPanelProps>(
+  ({ channels, tappedTopics, supported, onRefresh, onTap, onUntap }) => (
+    <div className="space-y-2 rounded-md border bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold">
+          App Channels
+          {supported && (
+            <span className="ml-1 font-normal text-muted-foreground">
+              ({channels.length})
+            </span>
+          )}
+        </span>
+        <Button
+          onClick={onRefresh}
+          disabled={!supported}
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          title="Refresh"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {!supported ? (
+        <p className="text-xs text-muted-foreground">
+          This client has no <code>getChannels()</code>, so the app&apos;s
+          channels cannot be listed.
+        </p>
+      ) : channels.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          The app has no realtime channels open.
+        </p>
+      ) : (
+        channels.map((channel) => {
+          const isTapped = tappedTopics.includes(channel.topic);
+
+          return (
+            <div
+              key={channel.topic}
+              className={cn(
+                "space-y-1 rounded-md border px-2 py-1",
+                isTapped && "border-blue-300 bg-blue-50/50"
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <div
+                  className={cn(
+                    "w-2 h-2 rounded-full shrink-0",
+                    STATE_COLORS[channel.state] ?? "bg-gray-400"
+                  )}
+                  title={channel.state}
+                ></div>
+                <span
+                  className="flex-1 truncate font-mono text-xs"
+                  title={channel.topic}
+                >
+                  {channel.name}
+                </span>
+                <Badge variant="outline" className="text-xs">
+                  {channel.state}
+                </Badge>
+                <Button
+                  onClick={() =>
+                    isTapped ? onUntap(channel.topic) : onTap(channel.topic)
+                  }
+                  disabled={!isTapped && channel.bindings.length === 0}
+                  variant={isTapped ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  title={
+                    isTapped
+                      ? "Stop tapping"
+                      : "Log events as the app's listeners receive them"
+                  }
+                >
+                  {isTapped ? (
+                    <EarOff className="w-3 h-3 mr-1" />
+                  ) : (
+                    <Ear className="w-3 h-3 mr-1" />
+                  )}
+                  {isTapped ? "Untap" : "Tap"}
+                </Button>
+              </div>
+              {channel.bindings.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {channel.bindings.map((binding, index) => (
+                    <Badge
+                      key={`${binding.label}-${index}`}
+                      variant="secondary"
+                      className="text-xs font-mono"
+                    >
+                      {binding.label}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">No listeners</p>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  )
+);
+
+AppChannelsPanel.displayName = "AppChannelsPanel";
+
+export default AppChannelsPanel;
@@ -0,0 +1,301 @@
+import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { History, Send, Trash2, Wand2 } from "lucide-react";
+import type { Redactor } from "@/registry/new-york/supabase-realtime-dev-tools/lib/redaction";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface BroadcastHistoryEntry {
+  readonly channelName: string;
+  readonly event: string;
+  readonly payload: string;
+  readonly sentAt: number;
+}
+
+interface BroadcastComposerProps {
+  // Channels that are currently subscribed and can be sent to.
+  readonly channels: readonly string[];
+  readonly disabled?: boolean;
+  // Masks payloads before they are saved to the history.
+  readonly redactor?: Redactor | null;
+  readonly onSend: (
+    channelName: string,
+    event: string,
+    payload: unknown
+  ) => Promise<boolean>;
+}
+
+// ============================================================================
+// HISTORY STORAGE
+// ============================================================================
+
+const HISTORY_STORAGE_KEY = "supabase-devtools-broadcast-history";
+const MAX_HISTORY = 10;
+const DEFAULT_PAYLOAD = '{\n  "message": "Hello from DevTools"\n}';
+
+const loadHistory = (): BroadcastHistoryEntry[] => {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.slice(0, MAX_HISTORY) : [];
+  } catch (error) {
+    console.warn("SupabaseDevTools: Failed to parse broadcast history", error);
+    return [];
+  }
+};
+
+const saveHistory = (history: readonly BroadcastHistoryEntry[]): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.warn("SupabaseDevTools: Failed to save broadcast history", error);
+  }
+};
+
+const parsePayload = (
+  text: string
+): { value: unknown; error: string | null } => {
+  if (!text.trim()) return { value: {}, error: null };
+
+  try {
+    return { value: JSON.parse(text), error: null };
+  } catch (error) {
+    return {
+      value: undefined,
+      error: error instanceof Error ? error.message : "Invalid JSON",
+    };
+  }
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const BroadcastComposer = memo<BroadcastComposerProps>(
+  ({ channels, disabled = false, redactor = null, onSend }) => {
+    const [channelName, setChannelName] = useState(channels[0] ?? "");
+    const [event, setEvent] = useState("devtools-test");
+    const [payloadText, setPayloadText] = useState(DEFAULT_PAYLOAD);
+    const [history, setHistory] =
+      useState<BroadcastHistoryEntry[]>(loadHistory);
+    const [showHistory, setShowHistory] = useState(false);
+    const [isSending, setIsSending] = useState(false);
+
+    const payload = useMemo(() => parsePayload(payloadText), [payloadText]);
+
+    // Follow the subscribed channels when the selected one goes away.
+    useEffect(() => {
+      if (!channels.includes(channelName)) {
+        setChannelName(channels[0] ?? "");
+      }
+    }, [channels, channelName]);
+
+    const canSend =
+      !disabled &&
+      !isSending &&
+      !!channelName &&
+      !!event.trim() &&
+      payload.error === null;
+
+    const handleSend = useCallback(async () => {
+      if (!canSend) return;
+
+      setIsSending(true);
+      const sent = await onSend(channelName, event.trim(), payload.value);
+      setIsSending(false);
+      if (!sent) return;
+
+      setHistory((prev) => {
+        const entry: BroadcastHistoryEntry = {
+          channelName,
+          event: event.trim(),
+          payload: redactor
+            ? JSON.stringify(redactor.redactValue(payload.value), null, 2)
+            : payloadText,
+          sentAt: Date.now(),
+        };
+        const next = [
+          entry,
+          ...prev.filter(
+            (item) =>
+              item.channelName !== entry.channelName ||
+              item.event !== entry.event ||
+              item.payload !== entry.payload
+          ),
+        ].slice(0, MAX_HISTORY);
+        saveHistory(next);
+        return next;
+      });
+    }, [
+      canSend,
+      onSend,
+      channelName,
+      event,
+      payload.value,
+      payloadText,
+      redactor,
+    ]);
+
+    const handleFormat = useCallback(() => {
+      if (payload.error === null && payloadText.trim()) {
+        setPayloadText(JSON.stringify(payload.value, null, 2));
+      }
+    }, [payload, payloadText]);
+
+    const restoreEntry = useCallback(
+      (entry: BroadcastHistoryEntry) => {
+        if (channels.includes(entry.channelName)) {
+          setChannelName(entry.channelName);
+        }
+        setEvent(entry.event);
+        setPayloadText(entry.payload);
+        setShowHistory(false);
+      },
+      [channels]
+    );
+
+    const clearHistory = useCallback(() => {
+      setHistory([]);
+      saveHistory([]);
+    }, []);
+
+    return (
+      <div className="space-y-2 rounded-md border bg-background p-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1">
+            <Send className="w-3 h-3 text-muted-foreground" />
+            <span className="text-xs font-semibold">Broadcast Composer</span>
+          </div>
+          <Button
+            onClick={() => setShowHistory((prev) => !prev)}
+            variant={showHistory ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={history.length === 0}
+          >
+            <History className="w-3 h-3 mr-1" />
+            History
+            {history.length > 0 && (
+              <Badge variant="outline" className="ml-1 text-xs">
+                {history.length}
+              </Badge>
+            )}
+          </Button>
+        </div>
+
+        {showHistory && history.length > 0 && (
+          <div className="space-y-1 rounded-md border p-1">
+            {history.map((entry) => (
+              <button
+                key={`${entry.sentAt}-${entry.event}`}
+                type="button"
+                onClick={() => restoreEntry(entry)}
+                className="flex w-full items-center gap-2 rounded px-1 py-0.5 text-left text-xs hover:bg-muted"
+              >
+                <Badge variant="secondary" className="text-xs shrink-0">
+                  {entry.event}
+                </Badge>
+                <span className="truncate font-mono text-muted-foreground">
+                  #{entry.channelName} {entry.payload.replace(/\s+/g, " ")}
+                </span>
+                <span className="ml-auto shrink-0 text-muted-foreground">
+                  {new Date(entry.sentAt).toLocaleTimeString()}
+                </span>
+              </button>
+            ))}
+            <Button
+              onClick={clearHistory}
+              variant="ghost"
+              size="sm"
+              className="h-6 w-full text-xs"
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Clear history
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <select
+            value={channelName}
+            onChange={(e) => setChannelName(e.target.value)}
+            disabled={disabled || channels.length === 0}
+            className="h-8 flex-1 min-w-0 rounded-md border border-input bg-transparent px-2 text-xs font-mono shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+          >
+            {channels.length === 0 && <option value="">No channels</option>}
+            {channels.map((name) => (
+              <option key={name} value={name}>
+                #{name}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={event}
+            onChange={(e) => setEvent(e.target.value)}
+            placeholder="Event name..."
+            disabled={disabled}
+            className="h-8 flex-1 text-xs font-mono"
+          />
+        </div>
+
+        <Textarea
+          value={payloadText}
+          onChange={(e) => setPayloadText(e.target.value)}
+          placeholder='{ "x": 10, "y": 20 }'
+          disabled={disabled}
+          spellCheck={false}
+          rows={4}
+          className={cn(
+            "text-xs font-mono md:text-xs",
+            payload.error && "border-red-500 focus-visible:ring-red-500"
+          )}
+        />
+
+        <div className="flex items-center gap-2">
+          <p
+            className={cn(
+              "flex-1 truncate text-xs",
+              payload.error ? "text-red-500" : "text-muted-foreground"
+            )}
+            title={payload.error ?? undefined}
+          >
+            {payload.error ? payload.error : "Valid JSON payload"}
+          </p>
+          <Button
+            onClick={handleFormat}
+            disabled={disabled || payload.error !== null}
+            variant="outline"
+            size="sm"
+            className="h-7 px-2"
+            title="Format JSON"
+          >
+            <Wand2 className="w-3 h-3" />
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={!canSend}
+            size="sm"
+            className="h-7 px-3"
+          >
+            <Send className="w-3 h-3 mr-1" />
+            Send
+          </Button>
+        </div>
+      </div>
+    );
+  }
+);
+
+BroadcastComposer.displayName = "BroadcastComposer";
+
+export default BroadcastComposer;
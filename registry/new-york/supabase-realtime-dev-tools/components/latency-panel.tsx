@@ -0,0 +1,251 @@
+import React, { memo, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { Gauge, Play, Square, Trash2 } from "lucide-react";
+import type { LatencyProbeState } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  LATENCY_PROBE_INTERVALS,
+  formatLatency,
+  summarizeLatency,
+  type LatencySummary,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/latency-probe";
+
+interface LatencyPanelProps {
+  readonly latency: LatencyProbeState;
+  readonly intervalMs: number;
+  readonly disabled?: boolean;
+  readonly onStart: () => void;
+  readonly onStop: () => void;
+  readonly onClear: () => void;
+  readonly onIntervalChange: (intervalMs: number) => void;
+}
+
+// Bars drawn in the timeline, newest on the right.
+const TIMELINE_SAMPLES = 60;
+
+const SUMMARY_COLUMNS: readonly ("min" | "avg" | "p95" | "p99")[] = [
+  "min",
+  "avg",
+  "p95",
+  "p99",
+];
+
+const SummaryRow = ({
+  label,
+  summary,
+  color,
+}: {
+  label: string;
+  summary: LatencySummary;
+  color: string;
+}) => (
+  <tr>
+    <td className="py-1 pr-2">
+      <span className="flex items-center gap-1">
+        <span className={cn("w-2 h-2 rounded-full", color)} />
+        {label}
+      </span>
+    </td>
+    {SUMMARY_COLUMNS.map((column) => (
+      <td key={column} className="py-1 px-1 text-right font-mono">
+        {formatLatency(summary[column])}
+      </td>
+    ))}
+    <td
+      className={cn(
+        "py-1 pl-1 text-right font-mono",
+        summary.lost > 0 && "text-red-600"
+      )}
+    >
+      {summary.lost}
+    </td>
+  </tr>
+);
+
+const LatencyPanel = memo<LatencyPanelProps>(
+  ({
+    latency,
+    intervalMs,
+    disabled = false,
+    onStart,
+    onStop,
+    onClear,
+    onIntervalChange,
+  }) => {
+    const { running, samples } = latency;
+
+    const ack = useMemo(() => summarizeLatency(samples, "ackMs"), [samples]);
+    const echo = useMemo(() => summarizeLatency(samples, "selfMs"), [samples]);
+
+    const timeline = samples.slice(-TIMELINE_SAMPLES);
+    const scale = Math.max(
+      1,
+      ...timeline.map((sample) =>
+        Math.max(sample.ackMs ?? 0, sample.selfMs ?? 0)
+      )
+    );
+
+    return (
+      <Card>
+        <CardContent className="p-4">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Gauge className="w-4 h-4 text-muted-foreground" />
+                <h4 className="text-sm font-medium">Round-trip Latency</h4>
+                {running && (
+                  <Badge variant="default" className="text-xs">
+                    Probing
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <select
+                  value={intervalMs}
+                  onChange={(e) => onIntervalChange(Number(e.target.value))}
+                  disabled={running}
+                  className="h-7 rounded-md border border-input bg-transparent px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                  title="Time between probes"
+                >
+                  {LATENCY_PROBE_INTERVALS.map((interval) => (
+                    <option key={interval} value={interval}>
+                      every {interval / 1000}s
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  onClick={running ? onStop : onStart}
+                  disabled={disabled && !running}
+                  variant={running ? "destructive" : "default"}
+                  size="sm"
+                  className="h-7 px-2"
+                >
+                  {running ? (
+                    <Square className="w-3 h-3 mr-1" />
+                  ) : (
+                    <Play className="w-3 h-3 mr-1" />
+                  )}
+                  {running ? "Stop" : "Start"}
+                </Button>
+                <Button
+                  onClick={onClear}
+                  disabled={samples.length === 0}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Clear samples"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+
+            {samples.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Sends a broadcast with <code>self</code> and <code>ack</code>{" "}
+                enabled on a private probe channel and times the server ack and
+                its echo back to this client.
+              </p>
+            ) : (
+              <>
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="py-1 pr-2 text-left font-normal">
+                        {samples.length} probes
+                      </th>
+                      {SUMMARY_COLUMNS.map((column) => (
+                        <th
+                          key={column}
+                          className="py-1 px-1 text-right font-normal"
+                        >
+                          {column}
+                        </th>
+                      ))}
+                      <th className="py-1 pl-1 text-right font-normal">lost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <SummaryRow
+                      label="Send → ack"
+                      summary={ack}
+                      color="bg-blue-500"
+                    />
+                    <SummaryRow
+                      label="Send → self"
+                      summary={echo}
+                      color="bg-green-500"
+                    />
+                  </tbody>
+                </table>
+
+                <div
+                  className="flex h-20 items-end gap-px rounded border bg-muted/30 p-1"
+                  title={`Last ${timeline.length} probes, scale ${formatLatency(
+                    scale
+                  )}`}
+                >
+                  {timeline.map((sample) => {
+                    const lost = sample.selfMs === null;
+
+                    return (
+                      <div
+                        key={`${sample.sentAt}-${sample.seq}`}
+                        className="relative flex-1 h-full"
+                        title={`#${sample.seq} ${new Date(
+                          sample.sentAt
+                        ).toLocaleTimeString()} · ack ${formatLatency(
+                          sample.ackMs
+                        )} · self ${
+                          lost ? "lost" : formatLatency(sample.selfMs)
+                        }`}
+                      >
+                        {lost ? (
+                          <div className="absolute bottom-0 w-full h-full bg-red-500/40" />
+                        ) : (
+                          <div
+                            className="absolute bottom-0 w-full bg-green-500"
+                            style={{
+                              height: `${
+                                ((sample.selfMs ?? 0) / scale) * 100
+                              }%`,
+                            }}
+                          />
+                        )}
+                        {sample.ackMs !== null && (
+                          <div
+                            className="absolute bottom-0 w-full bg-blue-500"
+                            style={{
+                              height: `${(sample.ackMs / scale) * 100}%`,
+                            }}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {new Date(timeline[0].sentAt).toLocaleTimeString()}
+                  </span>
+                  <span>max {formatLatency(scale)}</span>
+                  <span>
+                    {new Date(
+                      timeline[timeline.length - 1].sentAt
+                    ).toLocaleTimeString()}
+                  </span>
+                </div>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+);
+
+LatencyPanel.displayName = "LatencyPanel";
+
+export default LatencyPanel;
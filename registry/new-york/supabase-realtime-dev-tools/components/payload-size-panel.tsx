@@ -0,0 +1,167 @@
+import React, { memo, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { Scale } from "lucide-react";
+import type {
+  PayloadSizeState,
+  PayloadSizeStats,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import { PAYLOAD_WARN_RATIO } from "@/registry/new-york/supabase-realtime-dev-tools/lib/payload-size";
+import { formatBytes } from "@/registry/new-york/supabase-realtime-dev-tools/lib/wire-tap";
+
+interface PayloadSizePanelProps {
+  readonly sizes: PayloadSizeState;
+  readonly limit: number;
+}
+
+type Grouping = "event" | "table";
+
+// Rows shown per grouping, biggest max first.
+const MAX_ROWS = 8;
+const SHOWN_OFFENDERS = 5;
+
+const PayloadSizePanel = memo<PayloadSizePanelProps>(({ sizes, limit }) => {
+  const [grouping, setGrouping] = useState<Grouping>("event");
+
+  const rows = useMemo(
+    () =>
+      Object.entries(grouping === "event" ? sizes.byEvent : sizes.byTable)
+        .sort(([, a], [, b]) => b.maxBytes - a.maxBytes)
+        .slice(0, MAX_ROWS),
+    [grouping, sizes.byEvent, sizes.byTable]
+  );
+
+  const isNear = (bytes: number) => bytes >= limit * PAYLOAD_WARN_RATIO;
+
+  const renderRow = ([name, stats]: [string, PayloadSizeStats]) => (
+    <tr key={name}>
+      <td className="py-1 pr-2 max-w-[160px] truncate font-mono" title={name}>
+        {name}
+      </td>
+      <td className="py-1 px-1 text-right font-mono">{stats.count}</td>
+      <td className="py-1 px-1 text-right font-mono">
+        {formatBytes(Math.round(stats.totalBytes / stats.count))}
+      </td>
+      <td
+        className={cn(
+          "py-1 pl-1 text-right font-mono",
+          isNear(stats.maxBytes) && "text-red-600"
+        )}
+      >
+        {formatBytes(stats.maxBytes)}
+      </td>
+    </tr>
+  );
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Scale className="w-4 h-4 text-muted-foreground" />
+              <h4 className="text-sm font-medium">Payload Sizes</h4>
+              <Badge variant="outline" className="text-xs">
+                limit {formatBytes(limit)}
+              </Badge>
+            </div>
+            <div className="flex rounded-md border text-xs">
+              {(["event", "table"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setGrouping(option)}
+                  className={cn(
+                    "px-2 py-0.5 capitalize first:rounded-l-md last:rounded-r-md",
+                    option === grouping
+                      ? "bg-primary text-primary-foreground"
+                      : "hover:bg-muted"
+                  )}
+                >
+                  By {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              {grouping === "event"
+                ? "No messages sent or received yet."
+                : "No database events received yet."}
+            </p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="py-1 pr-2 text-left font-normal capitalize">
+                    {grouping}
+                  </th>
+                  <th className="py-1 px-1 text-right font-normal">count</th>
+                  <th className="py-1 px-1 text-right font-normal">avg</th>
+                  <th className="py-1 pl-1 text-right font-normal">max</th>
+                </tr>
+              </thead>
+              <tbody>{rows.map(renderRow)}</tbody>
+            </table>
+          )}
+
+          {sizes.largest.length > 0 && (
+            <div className="space-y-1">
+              <h5 className="text-xs font-medium text-muted-foreground">
+                Largest
+              </h5>
+              {sizes.largest.slice(0, SHOWN_OFFENDERS).map((offender) => (
+                <div
+                  key={offender.logId}
+                  className="flex items-center gap-2 text-xs"
+                >
+                  <span className="w-16 font-mono text-muted-foreground">
+                    {new Date(offender.receivedAt).toLocaleTimeString()}
+                  </span>
+                  <span
+                    className="flex-1 truncate font-mono"
+                    title={offender.channelName ?? undefined}
+                  >
+                    {offender.source === "self" ? "sent " : ""}
+                    {offender.table ?? offender.event ?? offender.source}
+                    {offender.table && offender.event
+                      ? ` ${offender.event}`
+                      : ""}
+                  </span>
+                  <div className="w-16 bg-muted rounded-full h-1.5">
+                    <div
+                      className={cn(
+                        "rounded-full h-1.5",
+                        isNear(offender.size) ? "bg-red-500" : "bg-primary"
+                      )}
+                      style={{
+                        width: `${Math.min(
+                          100,
+                          (offender.size / limit) * 100
+                        )}%`,
+                      }}
+                    />
+                  </div>
+                  <span
+                    className={cn(
+                      "w-16 text-right font-mono",
+                      isNear(offender.size) && "text-red-600"
+                    )}
+                  >
+                    {formatBytes(offender.size)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+
+PayloadSizePanel.displayName = "PayloadSizePanel";
+
+export default PayloadSizePanel;
@@ -0,0 +1,165 @@
+import React, { memo, useCallback } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { Plus, Trash2 } from "lucide-react";
+import type { PostgresBinding } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  POSTGRES_EVENTS,
+  createPostgresBinding,
+  getPostgresBindingLabel,
+  validatePostgresBinding,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/postgres-bindings";
+
+interface PostgresBindingsEditorProps {
+  readonly bindings: readonly PostgresBinding[];
+  readonly disabled?: boolean;
+  readonly onChange: (bindings: readonly PostgresBinding[]) => void;
+}
+
+const PostgresBindingsEditor = memo<PostgresBindingsEditorProps>(
+  ({ bindings, disabled = false, onChange }) => {
+    const updateBinding = useCallback(
+      (id: string, updates: Partial<PostgresBinding>) => {
+        onChange(
+          bindings.map((binding) =>
+            binding.id === id ? { ...binding, ...updates } : binding
+          )
+        );
+      },
+      [bindings, onChange]
+    );
+
+    const removeBinding = useCallback(
+      (id: string) => {
+        onChange(bindings.filter((binding) => binding.id !== id));
+      },
+      [bindings, onChange]
+    );
+
+    const addBinding = useCallback(() => {
+      onChange([...bindings, createPostgresBinding()]);
+    }, [bindings, onChange]);
+
+    return (
+      <div className="space-y-2">
+        {bindings.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            No bindings: database changes will not be received.
+          </p>
+        )}
+
+        {bindings.map((binding) => {
+          const error = validatePostgresBinding(binding);
+
+          return (
+            <div
+              key={binding.id}
+              className={cn(
+                "space-y-2 rounded-md border p-2",
+                error && "border-red-300"
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <Input
+                  value={binding.label}
+                  onChange={(e) =>
+                    updateBinding(binding.id, { label: e.target.value })
+                  }
+                  placeholder={getPostgresBindingLabel({
+                    ...binding,
+                    label: "",
+                  })}
+                  disabled={disabled}
+                  className="h-7 flex-1 text-xs"
+                  title="Label shown on log entries"
+                />
+                <Button
+                  onClick={() => removeBinding(binding.id)}
+                  disabled={disabled}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Remove binding"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  value={binding.schema}
+                  onChange={(e) =>
+                    updateBinding(binding.id, { schema: e.target.value })
+                  }
+                  placeholder="schema"
+                  disabled={disabled}
+                  className="h-7 text-xs font-mono"
+                />
+                <Input
+                  value={binding.table}
+                  onChange={(e) =>
+                    updateBinding(binding.id, { table: e.target.value })
+                  }
+                  placeholder="table (all)"
+                  disabled={disabled}
+                  className="h-7 text-xs font-mono"
+                />
+                <select
+                  value={binding.event}
+                  onChange={(e) =>
+                    updateBinding(binding.id, {
+                      event: e.target.value as PostgresBinding["event"],
+                    })
+                  }
+                  disabled={disabled}
+                  className="h-7 rounded-md border border-input bg-transparent px-2 text-xs font-mono shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                >
+                  {POSTGRES_EVENTS.map((event) => (
+                    <option key={event} value={event}>
+                      {event === "*" ? "* (all)" : event}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                value={binding.filter}
+                onChange={(e) =>
+                  updateBinding(binding.id, { filter: e.target.value })
+                }
+                placeholder="filter, e.g. room_id=eq.42 or id=in.(1,2,3)"
+                disabled={disabled}
+                className={cn(
+                  "h-7 text-xs font-mono",
+                  error && "border-red-500"
+                )}
+              />
+              {error ? (
+                <p className="text-xs text-red-500">{error}</p>
+              ) : (
+                <Badge variant="outline" className="text-xs font-mono">
+                  {getPostgresBindingLabel(binding)}
+                </Badge>
+              )}
+            </div>
+          );
+        })}
+
+        <Button
+          onClick={addBinding}
+          disabled={disabled}
+          variant="outline"
+          size="sm"
+          className="w-full h-7"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add Binding
+        </Button>
+      </div>
+    );
+  }
+);
+
+PostgresBindingsEditor.displayName = "PostgresBindingsEditor";
+
+export default PostgresBindingsEditor;
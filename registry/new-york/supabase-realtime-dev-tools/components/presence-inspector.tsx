@@ -0,0 +1,253 @@
+import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { UserMinus, UserPlus, Users } from "lucide-react";
+import type {
+  ChannelPresence,
+  PresenceMeta,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PresenceInspectorProps {
+  // Channels that are currently subscribed and can be inspected.
+  readonly channels: readonly string[];
+  readonly presence: Readonly<Record<string, ChannelPresence>>;
+  readonly disabled?: boolean;
+  readonly onTrack: (
+    channelName: string,
+    payload: Record<string, unknown>
+  ) => Promise<boolean>;
+  readonly onUntrack: (channelName: string) => Promise<boolean>;
+}
+
+const DEFAULT_TRACK_PAYLOAD =
+  '{\n  "user": "devtools",\n  "status": "online"\n}';
+
+const parseTrackPayload = (
+  text: string
+): { value: Record<string, unknown> | null; error: string | null } => {
+  try {
+    const value = JSON.parse(text || "{}");
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return { value: null, error: "Presence payload must be a JSON object" };
+    }
+    return { value, error: null };
+  } catch (error) {
+    return {
+      value: null,
+      error: error instanceof Error ? error.message : "Invalid JSON",
+    };
+  }
+};
+
+// Everything but the ref Realtime adds to each tracked payload.
+const getMetaPayload = (meta: PresenceMeta): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(meta).filter(([key]) => key !== "presence_ref")
+  );
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const PresenceInspector = memo<PresenceInspectorProps>(
+  ({ channels, presence, disabled = false, onTrack, onUntrack }) => {
+    const [channelName, setChannelName] = useState(channels[0] ?? "");
+    const [payloadText, setPayloadText] = useState(DEFAULT_TRACK_PAYLOAD);
+    const [isUpdating, setIsUpdating] = useState(false);
+
+    const payload = useMemo(
+      () => parseTrackPayload(payloadText),
+      [payloadText]
+    );
+
+    // Follow the subscribed channels when the selected one goes away.
+    useEffect(() => {
+      if (!channels.includes(channelName)) {
+        setChannelName(channels[0] ?? "");
+      }
+    }, [channels, channelName]);
+
+    const current = channelName ? presence[channelName] : undefined;
+    const entries = useMemo(
+      () =>
+        Object.entries(current?.state ?? {}).sort(([a], [b]) =>
+          a.localeCompare(b)
+        ),
+      [current]
+    );
+    const presenceCount = entries.reduce(
+      (total, [, metas]) => total + metas.length,
+      0
+    );
+
+    const canUpdate = !disabled && !isUpdating && !!channelName;
+
+    const handleTrack = useCallback(async () => {
+      if (!canUpdate || !payload.value) return;
+
+      setIsUpdating(true);
+      await onTrack(channelName, payload.value);
+      setIsUpdating(false);
+    }, [canUpdate, payload.value, onTrack, channelName]);
+
+    const handleUntrack = useCallback(async () => {
+      if (!canUpdate) return;
+
+      setIsUpdating(true);
+      await onUntrack(channelName);
+      setIsUpdating(false);
+    }, [canUpdate, onUntrack, channelName]);
+
+    if (channels.length === 0) {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
+          <Users className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No subscribed channels</p>
+          <p className="text-xs mt-1">
+            Start monitoring a channel to inspect its presence state
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <select
+            value={channelName}
+            onChange={(e) => setChannelName(e.target.value)}
+            className="h-8 flex-1 min-w-0 rounded-md border border-input bg-transparent px-2 text-xs font-mono shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+          >
+            {channels.map((name) => (
+              <option key={name} value={name}>
+                #{name}
+              </option>
+            ))}
+          </select>
+          <Badge variant="secondary" className="text-xs shrink-0">
+            {entries.length} keys · {presenceCount} presences
+          </Badge>
+        </div>
+
+        <div className="space-y-2">
+          {entries.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              {current
+                ? "Nobody is present on this channel."
+                : "Waiting for the first presence sync..."}
+            </p>
+          ) : (
+            entries.map(([key, metas]) => (
+              <div key={key} className="rounded-md border p-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-semibold font-mono truncate">
+                    {key}
+                  </span>
+                  {metas.length > 1 && (
+                    <Badge variant="outline" className="text-xs">
+                      {metas.length} tabs
+                    </Badge>
+                  )}
+                </div>
+                {metas.map((meta) => {
+                  const joinedAt = current?.joinedAt[meta.presence_ref];
+
+                  return (
+                    <div
+                      key={meta.presence_ref}
+                      className="rounded bg-muted/50 p-2 space-y-1"
+                    >
+                      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="font-mono truncate">
+                          ref {meta.presence_ref}
+                        </span>
+                        {joinedAt && (
+                          <span className="shrink-0">
+                            joined {new Date(joinedAt).toLocaleTimeString()}
+                          </span>
+                        )}
+                      </div>
+                      <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+                        {JSON.stringify(getMetaPayload(meta), null, 2)}
+                      </pre>
+                    </div>
+                  );
+                })}
+              </div>
+            ))
+          )}
+          {current && (
+            <p className="text-xs text-muted-foreground">
+              Last sync {new Date(current.updatedAt).toLocaleTimeString()}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2 rounded-md border bg-background p-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold">Track DevTools</span>
+            {current?.tracked && (
+              <Badge variant="default" className="text-xs">
+                Tracking
+              </Badge>
+            )}
+          </div>
+          <Textarea
+            value={payloadText}
+            onChange={(e) => setPayloadText(e.target.value)}
+            placeholder='{ "user": "devtools" }'
+            disabled={disabled}
+            spellCheck={false}
+            rows={3}
+            className={cn(
+              "text-xs font-mono md:text-xs",
+              payload.error && "border-red-500 focus-visible:ring-red-500"
+            )}
+          />
+          <div className="flex items-center gap-2">
+            <p
+              className={cn(
+                "flex-1 truncate text-xs",
+                payload.error ? "text-red-500" : "text-muted-foreground"
+              )}
+              title={payload.error ?? undefined}
+            >
+              {payload.error
+                ? payload.error
+                : "Tracked by this DevTools instance"}
+            </p>
+            <Button
+              onClick={handleUntrack}
+              disabled={!canUpdate || !current?.tracked}
+              variant="outline"
+              size="sm"
+              className="h-7 px-3"
+            >
+              <UserMinus className="w-3 h-3 mr-1" />
+              Untrack
+            </Button>
+            <Button
+              onClick={handleTrack}
+              disabled={!canUpdate || payload.error !== null}
+              size="sm"
+              className="h-7 px-3"
+            >
+              <UserPlus className="w-3 h-3 mr-1" />
+              {current?.tracked ? "Update" : "Track"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+);
+
+PresenceInspector.displayName = "PresenceInspector";
+
+export default PresenceInspector;
@@ -0,0 +1,117 @@
+import React, { memo, useCallback } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Plus, Trash2 } from "lucide-react";
+import type { RedactionRule } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  REDACTION_KINDS,
+  createRedactionRule,
+  validateRedactionRule,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/redaction";
+
+interface RedactionRulesEditorProps {
+  readonly rules: readonly RedactionRule[];
+  readonly onChange: (rules: readonly RedactionRule[]) => void;
+}
+
+const PLACEHOLDERS: Record<RedactionRule["kind"], string> = {
+  key: "key name, e.g. email",
+  path: "path, e.g. payload.user.phone",
+  pattern: "regex, e.g. [\\w.+-]+@[\\w-]+\\.[\\w.]+",
+};
+
+const RedactionRulesEditor = memo<RedactionRulesEditorProps>(
+  ({ rules, onChange }) => {
+    const updateRule = useCallback(
+      (id: string, updates: Partial<RedactionRule>) => {
+        onChange(
+          rules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule))
+        );
+      },
+      [rules, onChange]
+    );
+
+    const removeRule = useCallback(
+      (id: string) => {
+        onChange(rules.filter((rule) => rule.id !== id));
+      },
+      [rules, onChange]
+    );
+
+    const addRule = useCallback(() => {
+      onChange([...rules, createRedactionRule()]);
+    }, [rules, onChange]);
+
+    return (
+      <div className="space-y-2">
+        {rules.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            No rules: payloads are shown as received.
+          </p>
+        )}
+
+        {rules.map((rule) => {
+          const error = validateRedactionRule(rule);
+
+          return (
+            <div key={rule.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <select
+                  value={rule.kind}
+                  onChange={(e) =>
+                    updateRule(rule.id, {
+                      kind: e.target.value as RedactionRule["kind"],
+                    })
+                  }
+                  className="h-7 rounded-md border border-input bg-transparent px-2 text-xs font-mono shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                >
+                  {REDACTION_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {kind}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  value={rule.value}
+                  onChange={(e) =>
+                    updateRule(rule.id, { value: e.target.value })
+                  }
+                  placeholder={PLACEHOLDERS[rule.kind]}
+                  className={cn(
+                    "h-7 flex-1 text-xs font-mono",
+                    error && "border-red-500"
+                  )}
+                />
+                <Button
+                  onClick={() => removeRule(rule.id)}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              {error && <p className="text-xs text-red-500">{error}</p>}
+            </div>
+          );
+        })}
+
+        <Button
+          onClick={addRule}
+          variant="outline"
+          size="sm"
+          className="w-full h-7"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add Rule
+        </Button>
+      </div>
+    );
+  }
+);
+
+RedactionRulesEditor.displayName = "RedactionRulesEditor";
+
+export default RedactionRulesEditor;
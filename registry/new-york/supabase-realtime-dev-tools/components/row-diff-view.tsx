@@ -0,0 +1,143 @@
+import React, { memo, useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
+import {
+  diffRows,
+  type ColumnChange,
+  type ColumnChangeKind,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-diff";
+
+interface RowDiffViewProps {
+  readonly oldRow: Record<string, unknown>;
+  readonly newRow: Record<string, unknown>;
+}
+
+const KIND_STYLES: Record<ColumnChangeKind, string> = {
+  changed: "bg-yellow-50 dark:bg-yellow-950/30",
+  added: "bg-green-50 dark:bg-green-950/30",
+  removed: "bg-red-50 dark:bg-red-950/30",
+  unchanged: "",
+  unknown: "",
+};
+
+const KIND_MARKS: Record<ColumnChangeKind, string> = {
+  changed: "~",
+  added: "+",
+  removed: "−",
+  unchanged: " ",
+  unknown: "?",
+};
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? "" : JSON.stringify(value);
+
+const ChangeRow = ({ change }: { change: ColumnChange }) => (
+  <tr className={KIND_STYLES[change.kind]}>
+    <td className="px-1 py-0.5 w-3 text-muted-foreground">
+      {KIND_MARKS[change.kind]}
+    </td>
+    <td className="px-1 py-0.5 align-top font-semibold">{change.column}</td>
+    <td className="px-1 py-0.5 align-top break-all">
+      {change.kind === "unknown" ? (
+        <span className="italic text-muted-foreground">not sent</span>
+      ) : change.kind === "added" ? null : (
+        <span
+          className={cn(
+            (change.kind === "changed" || change.kind === "removed") &&
+              "text-red-700 line-through dark:text-red-400"
+          )}
+        >
+          {formatValue(change.before)}
+        </span>
+      )}
+    </td>
+    <td className="px-1 py-0.5 align-top break-all">
+      {change.kind === "removed" ? null : (
+        <span
+          className={cn(
+            (change.kind === "changed" || change.kind === "added") &&
+              "text-green-700 dark:text-green-400"
+          )}
+        >
+          {formatValue(change.after)}
+        </span>
+      )}
+    </td>
+  </tr>
+);
+
+const RowDiffView = memo<RowDiffViewProps>(({ oldRow, newRow }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const { changes, identityOnly } = useMemo(
+    () => diffRows(oldRow, newRow),
+    [oldRow, newRow]
+  );
+
+  const unchanged = changes.filter((change) => change.kind === "unchanged");
+  const shown = changes.filter((change) => change.kind !== "unchanged");
+
+  return (
+    <div className="space-y-2">
+      {identityOnly && (
+        <div className="flex items-start gap-2 rounded border border-yellow-300 bg-yellow-50 p-2 text-xs text-yellow-900 dark:bg-yellow-950/30 dark:text-yellow-200">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>
+            <code>old</code>{" "}
+            {Object.keys(oldRow).length
+              ? `only has ${Object.keys(oldRow).join(", ")}`
+              : "is empty"}
+            : the table lacks <code>REPLICA IDENTITY FULL</code>, so previous
+            values are not sent. Run{" "}
+            <code>ALTER TABLE … REPLICA IDENTITY FULL;</code> to see them. With
+            RLS enabled, Realtime sends only the primary key even then.
+          </span>
+        </div>
+      )}
+
+      <table className="w-full text-xs font-mono">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th />
+            <th className="px-1 text-left font-normal">column</th>
+            <th className="px-1 text-left font-normal">old</th>
+            <th className="px-1 text-left font-normal">new</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((change) => (
+            <ChangeRow key={change.column} change={change} />
+          ))}
+          {showUnchanged &&
+            unchanged.map((change) => (
+              <ChangeRow key={change.column} change={change} />
+            ))}
+        </tbody>
+      </table>
+
+      {shown.length === 0 && (
+        <p className="text-xs text-muted-foreground">No column changed.</p>
+      )}
+
+      {unchanged.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowUnchanged((prev) => !prev)}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        >
+          {showUnchanged ? (
+            <ChevronDown className="w-3 h-3" />
+          ) : (
+            <ChevronRight className="w-3 h-3" />
+          )}
+          {unchanged.length} unchanged column
+          {unchanged.length === 1 ? "" : "s"}
+        </button>
+      )}
+    </div>
+  );
+});
+
+RowDiffView.displayName = "RowDiffView";
+
+export default RowDiffView;
@@ -0,0 +1,333 @@
+import React, { memo, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, History } from "lucide-react";
+import type {
+  RowEvent,
+  RowEventType,
+  RowHistory,
+  RowHistoryState,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  formatRowKey,
+  isRowDeleted,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-history";
+import { isIdentityOnlyOld } from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-diff";
+import RowDiffView from "@/registry/new-york/supabase-realtime-dev-tools/components/row-diff-view";
+
+interface RowHistoryInspectorProps {
+  readonly history: RowHistoryState;
+  readonly followedRowId: string | null;
+  readonly onFollow: (rowId: string | null) => void;
+}
+
+const EVENT_STYLES: Record<RowEventType, string> = {
+  INSERT: "bg-green-500",
+  UPDATE: "bg-yellow-500",
+  DELETE: "bg-red-500",
+};
+
+// Rows listed at once, most recently changed first.
+const MAX_LISTED_ROWS = 100;
+
+// Event markers shown per row in the list.
+const MAX_EVENT_MARKS = 12;
+
+const formatEventTime = (at: number): string =>
+  new Date(at).toLocaleTimeString("en-US", {
+    hour12: false,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    fractionalSecondDigits: 3,
+  });
+
+// ============================================================================
+// TIMELINE EVENT
+// ============================================================================
+
+const RowEventItem = memo<{
+  event: RowEvent;
+  previous: RowEvent | undefined;
+}>(({ event, previous }) => {
+  // Without REPLICA IDENTITY FULL, `old` is only the key; the row as last
+  // seen in this history fills in the previous values.
+  const oldRow = event.oldRow ?? {};
+  const newRow = event.newRow ?? {};
+  const reconstructed =
+    event.eventType === "UPDATE" &&
+    isIdentityOnlyOld(oldRow, newRow) &&
+    !!previous?.newRow;
+
+  return (
+    <div className="relative pl-4 pb-3">
+      <span
+        className={cn(
+          "absolute -left-[5px] top-1 w-2 h-2 rounded-full",
+          EVENT_STYLES[event.eventType]
+        )}
+      />
+      <div className="flex items-center gap-2 text-xs">
+        <Badge variant="secondary" className="text-xs font-mono">
+          {event.eventType}
+        </Badge>
+        <span className="font-mono text-muted-foreground">
+          {formatEventTime(event.receivedAt)}
+        </span>
+        {event.channelName && (
+          <span
+            className="truncate font-mono text-muted-foreground"
+            title={event.channelName}
+          >
+            #{event.channelName}
+          </span>
+        )}
+        <span className="ml-auto font-mono text-muted-foreground">
+          log #{event.logId}
+        </span>
+      </div>
+
+      <div className="mt-1 rounded-md bg-muted p-2">
+        {event.eventType === "UPDATE" ? (
+          <>
+            {reconstructed && (
+              <p className="mb-1 text-xs text-muted-foreground">
+                Old values taken from the previous event.
+              </p>
+            )}
+            <RowDiffView
+              oldRow={
+                reconstructed && previous?.newRow ? previous.newRow : oldRow
+              }
+              newRow={newRow}
+            />
+          </>
+        ) : (
+          <pre className="text-xs font-mono whitespace-pre-wrap break-words">
+            {JSON.stringify(
+              event.eventType === "INSERT" ? event.newRow : event.oldRow,
+              null,
+              2
+            )}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+});
+
+RowEventItem.displayName = "RowEventItem";
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const RowHistoryInspector = memo<RowHistoryInspectorProps>(
+  ({ history, followedRowId, onFollow }) => {
+    const [tableFilter, setTableFilter] = useState<string>("all");
+    const [keyFilter, setKeyFilter] = useState("");
+
+    const tables = useMemo(
+      () =>
+        Array.from(
+          new Set([
+            ...Object.values(history.rows).map((row) => row.table),
+            ...Object.keys(history.unkeyed),
+          ])
+        ).sort(),
+      [history.rows, history.unkeyed]
+    );
+
+    const rows = useMemo(() => {
+      const key = keyFilter.trim().toLowerCase();
+      return Object.values(history.rows)
+        .filter(
+          (row) =>
+            (tableFilter === "all" || row.table === tableFilter) &&
+            (!key || formatRowKey(row.key).toLowerCase().includes(key))
+        )
+        .sort((a, b) => b.lastAt - a.lastAt);
+    }, [history.rows, tableFilter, keyFilter]);
+
+    const unkeyed = Object.entries(history.unkeyed).filter(
+      ([table]) => tableFilter === "all" || table === tableFilter
+    );
+
+    const followed: RowHistory | undefined = followedRowId
+      ? history.rows[followedRowId]
+      : undefined;
+
+    if (followedRowId) {
+      return (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => onFollow(null)}
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              title="Back to all rows"
+            >
+              <ArrowLeft className="w-3 h-3" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-xs font-mono text-muted-foreground">
+                {followed?.table}
+              </p>
+              <h3
+                className="truncate text-sm font-semibold font-mono"
+                title={followedRowId}
+              >
+                {followed ? formatRowKey(followed.key) : followedRowId}
+              </h3>
+            </div>
+            {followed && (
+              <Badge
+                variant={isRowDeleted(followed) ? "destructive" : "outline"}
+                className="text-xs"
+              >
+                {isRowDeleted(followed)
+                  ? "deleted"
+                  : `${followed.events.length} events`}
+              </Badge>
+            )}
+          </div>
+
+          {!followed ? (
+            <p className="text-xs text-muted-foreground">
+              This row is no longer in the history. Clearing the logs resets it,
+              and the least recently changed rows are dropped over time.
+            </p>
+          ) : (
+            <ScrollArea className="h-[calc(100vh-220px)]">
+              <div className="ml-2 border-l pt-1">
+                {followed.events.map((event, index) => (
+                  <RowEventItem
+                    key={event.logId}
+                    event={event}
+                    previous={followed.events[index - 1]}
+                  />
+                ))}
+              </div>
+              <ScrollBar orientation="vertical" />
+            </ScrollArea>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-muted-foreground" />
+          <h3 className="flex-1 text-sm font-semibold">Row History</h3>
+          <Badge variant="outline" className="text-xs">
+            {rows.length} rows
+          </Badge>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={tableFilter}
+            onChange={(e) => setTableFilter(e.target.value)}
+            className="h-8 rounded-md border border-input bg-transparent px-2 text-xs font-mono shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          >
+            <option value="all">All tables</option>
+            {tables.map((table) => (
+              <option key={table} value={table}>
+                {table}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={keyFilter}
+            onChange={(e) => setKeyFilter(e.target.value)}
+            placeholder="Filter key, e.g. id=1234"
+            className="h-8 flex-1 text-xs font-mono"
+          />
+        </div>
+
+        {unkeyed.map(([table, count]) => (
+          <p key={table} className="text-xs text-muted-foreground">
+            {count} event{count === 1 ? "" : "s"} on{" "}
+            <span className="font-mono">{table}</span> had no recognizable
+            primary key. Rows are keyed by <code>id</code> until an UPDATE whose{" "}
+            <code>old</code> record holds only the key reveals it.
+          </p>
+        ))}
+
+        <ScrollArea className="h-[calc(100vh-260px)] rounded-md border">
+          {rows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No row changes</p>
+              <p className="text-xs mt-1">
+                Database INSERT, UPDATE and DELETE events are grouped here by
+                row
+              </p>
+            </div>
+          ) : (
+            rows.slice(0, MAX_LISTED_ROWS).map((row) => (
+              <button
+                key={row.id}
+                type="button"
+                onClick={() => onFollow(row.id)}
+                className="flex w-full items-center gap-2 border-b px-2 py-1.5 text-left text-xs hover:bg-muted/50"
+              >
+                <span
+                  className="max-w-[120px] truncate font-mono text-muted-foreground"
+                  title={row.table}
+                >
+                  {row.table}
+                </span>
+                <span
+                  className={cn(
+                    "flex-1 truncate font-mono font-semibold",
+                    isRowDeleted(row) && "line-through text-muted-foreground"
+                  )}
+                  title={formatRowKey(row.key)}
+                >
+                  {formatRowKey(row.key)}
+                </span>
+                <span className="flex items-center gap-0.5">
+                  {row.events.length > MAX_EVENT_MARKS && (
+                    <span className="mr-0.5 text-muted-foreground">
+                      +{row.events.length - MAX_EVENT_MARKS}
+                    </span>
+                  )}
+                  {row.events.slice(-MAX_EVENT_MARKS).map((event) => (
+                    <span
+                      key={event.logId}
+                      className={cn(
+                        "w-1.5 h-3 rounded-sm",
+                        EVENT_STYLES[event.eventType]
+                      )}
+                      title={`${event.eventType} at ${formatEventTime(
+                        event.receivedAt
+                      )}`}
+                    />
+                  ))}
+                </span>
+              </button>
+            ))
+          )}
+          <ScrollBar orientation="vertical" />
+        </ScrollArea>
+
+        {rows.length > MAX_LISTED_ROWS && (
+          <p className="text-xs text-muted-foreground">
+            Showing the {MAX_LISTED_ROWS} most recently changed of {rows.length}{" "}
+            rows. Filter by table or key to find others.
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+
+RowHistoryInspector.displayName = "RowHistoryInspector";
+
+export default RowHistoryInspector;
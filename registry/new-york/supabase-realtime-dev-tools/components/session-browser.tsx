@@ -0,0 +1,150 @@
+import React, { memo } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { FolderOpen, RefreshCw, Trash2 } from "lucide-react";
+import type { StoredSession } from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-store";
+
+interface SessionBrowserProps {
+  // Newest first.
+  readonly sessions: readonly StoredSession[];
+  // The session this page is writing to, if persistence is on.
+  readonly currentSessionId: string | null;
+  // False when the browser has no IndexedDB.
+  readonly supported: boolean;
+  readonly onRefresh: () => void;
+  readonly onOpen: (session: StoredSession) => void;
+  readonly onRename: (sessionId: string, name: string) => void;
+  readonly onDelete: (sessionId: string) => void;
+}
+
+const formatRange = (session: StoredSession): string => {
+  const started = new Date(session.startedAt);
+  const updated = new Date(session.updatedAt);
+  return started.toDateString() === updated.toDateString()
+    ? `${started.toLocaleString()} – ${updated.toLocaleTimeString()}`
+    : `${started.toLocaleString()} – ${updated.toLocaleString()}`;
+};
+
+const SessionBrowser = memo<SessionBrowserProps>(
+  ({
+    sessions,
+    currentSessionId,
+    supported,
+    onRefresh,
+    onOpen,
+    onRename,
+    onDelete,
+  }) => (
+    <div className="space-y-2 rounded-md border bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold">
+          Saved Sessions
+          {supported && (
+            <span className="ml-1 font-normal text-muted-foreground">
+              ({sessions.length})
+            </span>
+          )}
+        </span>
+        <Button
+          onClick={onRefresh}
+          disabled={!supported}
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          title="Refresh"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {!supported ? (
+        <p className="text-xs text-muted-foreground">
+          This browser has no IndexedDB, so logs cannot be persisted.
+        </p>
+      ) : sessions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No saved sessions. Turn on Persist Logs in Settings to keep logs
+          across reloads.
+        </p>
+      ) : (
+        <div className="max-h-64 space-y-1 overflow-y-auto">
+          {sessions.map((session) => {
+            const isCurrent = session.id === currentSessionId;
+
+            return (
+              <div
+                key={session.id}
+                className={cn(
+                  "space-y-1 rounded-md border px-2 py-1",
+                  isCurrent && "border-blue-300 bg-blue-50/50"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  {/* Keyed by name so a rename elsewhere resets the draft. */}
+                  <Input
+                    key={session.name}
+                    defaultValue={session.name}
+                    onBlur={(e) => {
+                      const name = e.target.value.trim();
+                      if (name && name !== session.name) {
+                        onRename(session.id, name);
+                      } else {
+                        e.target.value = session.name;
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur();
+                    }}
+                    className="h-6 flex-1 px-1 text-xs"
+                    title="Rename"
+                  />
+                  {isCurrent && (
+                    <Badge variant="outline" className="text-xs">
+                      Recording
+                    </Badge>
+                  )}
+                  <Button
+                    onClick={() => onOpen(session)}
+                    disabled={session.logCount === 0}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    title="Open read-only"
+                  >
+                    <FolderOpen className="w-3 h-3 mr-1" />
+                    Open
+                  </Button>
+                  <Button
+                    onClick={() => onDelete(session.id)}
+                    disabled={isCurrent}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title={
+                      isCurrent ? "This session is still recording" : "Delete"
+                    }
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {session.logCount} logs · {formatRange(session)}
+                  {session.channels.length > 0 &&
+                    ` · ${session.channels
+                      .map((name) => `#${name}`)
+                      .join(" ")}`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  )
+);
+
+SessionBrowser.displayName = "SessionBrowser";
+
+export default SessionBrowser;
@@ -0,0 +1,230 @@
+import React, { memo, useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { HeartPulse } from "lucide-react";
+import type {
+  HeartbeatSample,
+  SocketHealth,
+  SocketState,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  UPTIME_WINDOW_MS,
+  describeCloseCode,
+  formatElapsed,
+  getUptimePercent,
+  summarizeHeartbeats,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/socket-health";
+import { formatLatency } from "@/registry/new-york/supabase-realtime-dev-tools/lib/latency-probe";
+
+interface SocketHealthPanelProps {
+  readonly socket: SocketHealth;
+  // Total open time up to the last state change, from ConnectionStats.
+  readonly uptime: number;
+}
+
+// Heartbeats drawn in the strip, newest on the right.
+const STRIP_HEARTBEATS = 40;
+const RECENT_EVENTS = 8;
+
+const STATE_COLORS: Record<SocketState, string> = {
+  open: "bg-green-500",
+  connecting: "bg-yellow-500",
+  closing: "bg-yellow-500",
+  closed: "bg-red-500",
+};
+
+const HEARTBEAT_COLORS: Record<HeartbeatSample["result"], string> = {
+  ok: "bg-green-500",
+  error: "bg-red-500",
+  timeout: "bg-red-500",
+  disconnected: "bg-gray-400",
+};
+
+const Row = ({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-mono text-xs">{children}</span>
+  </div>
+);
+
+const SocketHealthPanel = memo<SocketHealthPanelProps>(({ socket, uptime }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Durations and the uptime window move on their own.
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const heartbeats = useMemo(
+    () => summarizeHeartbeats(socket.heartbeats),
+    [socket.heartbeats]
+  );
+
+  const lastChange = socket.stateChanges[socket.stateChanges.length - 1];
+  const openFor =
+    socket.state === "open" && lastChange ? now - lastChange.at : null;
+  const uptimePercent = getUptimePercent(socket.stateChanges, now);
+  const strip = socket.heartbeats.slice(-STRIP_HEARTBEATS);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <HeartPulse className="w-4 h-4 text-muted-foreground" />
+              <h4 className="text-sm font-medium">Socket Health</h4>
+            </div>
+            {socket.state && (
+              <Badge variant="outline" className="text-xs gap-1">
+                <span
+                  className={cn(
+                    "w-2 h-2 rounded-full",
+                    STATE_COLORS[socket.state]
+                  )}
+                />
+                {socket.state}
+              </Badge>
+            )}
+          </div>
+
+          {!socket.supported ? (
+            <p className="text-xs text-muted-foreground">
+              This client exposes no socket state, callbacks or heartbeat hook,
+              so the connection cannot be watched.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                <Row label={`Uptime (${UPTIME_WINDOW_MS / 60000}m):`}>
+                  <span
+                    className={cn(
+                      uptimePercent !== null &&
+                        uptimePercent < 99 &&
+                        "text-red-600"
+                    )}
+                  >
+                    {uptimePercent === null
+                      ? "—"
+                      : `${uptimePercent.toFixed(1)}%`}
+                  </span>
+                </Row>
+                <Row label="Heartbeat:">
+                  {socket.heartbeatIntervalMs
+                    ? `every ${socket.heartbeatIntervalMs / 1000}s`
+                    : "—"}
+                </Row>
+                <Row label="Open for:">
+                  {openFor === null ? "—" : formatElapsed(openFor)}
+                </Row>
+                <Row label="Last RTT:">
+                  {socket.pendingHeartbeatAt !== null
+                    ? `waiting ${formatElapsed(
+                        now - socket.pendingHeartbeatAt
+                      )}`
+                    : formatLatency(heartbeats.lastRttMs)}
+                </Row>
+                <Row label="Total open:">
+                  {formatElapsed(uptime + (openFor ?? 0))}
+                </Row>
+                <Row label="Avg RTT:">{formatLatency(heartbeats.avgRttMs)}</Row>
+                <Row label="Closes:">
+                  {
+                    socket.events.filter((event) => event.type === "close")
+                      .length
+                  }
+                </Row>
+                <Row label="Missed:">
+                  <span
+                    className={cn(
+                      socket.missedHeartbeats > 0 && "text-red-600"
+                    )}
+                  >
+                    {socket.missedHeartbeats}
+                  </span>
+                </Row>
+              </div>
+
+              {strip.length > 0 && (
+                <div
+                  className="flex h-4 items-stretch gap-px"
+                  title={`Last ${strip.length} heartbeats`}
+                >
+                  {strip.map((sample, index) => (
+                    <div
+                      key={`${sample.sentAt}-${index}`}
+                      className={cn(
+                        "flex-1 rounded-sm",
+                        HEARTBEAT_COLORS[sample.result]
+                      )}
+                      title={`${new Date(
+                        sample.sentAt
+                      ).toLocaleTimeString()} · ${sample.result}${
+                        sample.rttMs !== null
+                          ? ` · ${formatLatency(sample.rttMs)}`
+                          : ""
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {socket.events.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No socket open or close seen yet.
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {socket.events.slice(0, RECENT_EVENTS).map((event) => (
+                    <div
+                      key={`${event.type}-${event.at}`}
+                      className="flex items-center gap-2 text-xs"
+                    >
+                      <span className="w-16 font-mono text-muted-foreground">
+                        {new Date(event.at).toLocaleTimeString()}
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-xs",
+                          event.type === "open" && "text-green-600",
+                          event.type === "error" && "text-red-600",
+                          event.type === "close" &&
+                            event.wasClean === false &&
+                            "text-red-600"
+                        )}
+                      >
+                        {event.type}
+                      </Badge>
+                      {event.type === "close" && (
+                        <span
+                          className="flex-1 truncate font-mono"
+                          title={event.reason ?? undefined}
+                        >
+                          {describeCloseCode(event.code)}
+                          {event.reason && ` · ${event.reason}`}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+
+SocketHealthPanel.displayName = "SocketHealthPanel";
+
+export default SocketHealthPanel;
@@ -0,0 +1,216 @@
+import React, { memo, useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { TrendingUp } from "lucide-react";
+import type {
+  MessageSource,
+  ThroughputBucket,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  THROUGHPUT_SOURCES,
+  THROUGHPUT_WINDOWS,
+  buildThroughputSeries,
+  formatRate,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/throughput";
+
+interface ThroughputChartProps {
+  readonly buckets: readonly ThroughputBucket[];
+  readonly windowMs: number;
+  readonly onWindowChange: (windowMs: number) => void;
+}
+
+// Same hues as the source badges in the log list.
+const SOURCE_COLORS: Record<MessageSource, string> = {
+  broadcast: "bg-green-500",
+  database: "bg-purple-500",
+  presence: "bg-blue-500",
+  system: "bg-gray-400",
+};
+
+const formatTime = (at: number): string =>
+  new Date(at).toLocaleTimeString("en-US", {
+    hour12: false,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const ThroughputChart = memo<ThroughputChartProps>(
+  ({ buckets, windowMs, onWindowChange }) => {
+    const [now, setNow] = useState(() => Date.now());
+    const [hidden, setHidden] = useState<ReadonlySet<MessageSource>>(new Set());
+
+    // Keep the chart rolling through quiet periods.
+    useEffect(() => {
+      const intervalId = setInterval(() => setNow(Date.now()), 1000);
+      return () => clearInterval(intervalId);
+    }, []);
+
+    const visible = useMemo(
+      () => THROUGHPUT_SOURCES.filter((source) => !hidden.has(source)),
+      [hidden]
+    );
+
+    const series = useMemo(
+      () => buildThroughputSeries(buckets, now, windowMs, visible),
+      [buckets, now, windowMs, visible]
+    );
+
+    const { points, peakIndex, secondsPerPoint } = series;
+    const peak = peakIndex !== null ? points[peakIndex] : null;
+    const scale = peak?.total || 1;
+    const windowSeconds = windowMs / 1000;
+    const windowTotal = visible.reduce(
+      (total, source) => total + series.totals[source],
+      0
+    );
+
+    const toggleSource = (source: MessageSource) =>
+      setHidden((prev) => {
+        const next = new Set(prev);
+        if (next.has(source)) {
+          next.delete(source);
+        } else {
+          next.add(source);
+        }
+        return next;
+      });
+
+    return (
+      <Card>
+        <CardContent className="p-4">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <TrendingUp className="w-4 h-4 text-muted-foreground" />
+                <h4 className="text-sm font-medium">Throughput</h4>
+              </div>
+              <div className="flex rounded-md border text-xs">
+                {THROUGHPUT_WINDOWS.map((window) => (
+                  <button
+                    key={window}
+                    type="button"
+                    onClick={() => onWindowChange(window)}
+                    className={cn(
+                      "px-2 py-0.5 first:rounded-l-md last:rounded-r-md",
+                      window === windowMs
+                        ? "bg-primary text-primary-foreground"
+                        : "hover:bg-muted"
+                    )}
+                  >
+                    {window / 60000}m
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                {windowTotal} messages ·{" "}
+                {formatRate(windowTotal / windowSeconds)} avg
+              </span>
+              <span
+                className={cn(
+                  "font-mono",
+                  peak ? "text-orange-600" : "text-muted-foreground"
+                )}
+              >
+                {peak
+                  ? `peak ${formatRate(peak.total)} at ${formatTime(
+                      peak.start
+                    )}`
+                  : "no traffic"}
+              </span>
+            </div>
+
+            <div
+              className="relative flex h-24 items-end gap-px rounded border bg-muted/30 p-1"
+              title={
+                secondsPerPoint > 1
+                  ? `Messages per second, averaged over ${secondsPerPoint}s`
+                  : "Messages per second"
+              }
+            >
+              {peak && (
+                <div
+                  className="pointer-events-none absolute inset-x-1 top-1 border-t border-dashed border-orange-500"
+                  aria-hidden
+                />
+              )}
+              {points.map((point, index) => (
+                <div
+                  key={point.start}
+                  className="relative flex h-full flex-1 flex-col-reverse"
+                  title={`${formatTime(point.start)} · ${formatRate(
+                    point.total
+                  )}${visible
+                    .filter((source) => point.rates[source] > 0)
+                    .map(
+                      (source) =>
+                        `\n${source}: ${formatRate(point.rates[source])}`
+                    )
+                    .join("")}`}
+                >
+                  {visible.map((source) =>
+                    point.rates[source] > 0 ? (
+                      <div
+                        key={source}
+                        className={cn("w-full", SOURCE_COLORS[source])}
+                        style={{
+                          height: `${(point.rates[source] / scale) * 100}%`,
+                        }}
+                      />
+                    ) : null
+                  )}
+                  {index === peakIndex && (
+                    <span
+                      className="absolute -top-1 left-1/2 -translate-x-1/2 text-[8px] leading-none text-orange-600"
+                      aria-label="Peak"
+                    >
+                      ▼
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>−{windowMs / 60000}m</span>
+              <span>now</span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {THROUGHPUT_SOURCES.map((source) => (
+                <button
+                  key={source}
+                  type="button"
+                  onClick={() => toggleSource(source)}
+                  className={cn(
+                    "flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs capitalize",
+                    hidden.has(source) && "opacity-40"
+                  )}
+                  title={hidden.has(source) ? "Show" : "Hide"}
+                >
+                  <span
+                    className={cn(
+                      "w-2 h-2 rounded-full",
+                      SOURCE_COLORS[source]
+                    )}
+                  />
+                  {source}
+                  <span className="font-mono text-muted-foreground">
+                    {series.totals[source]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+);
+
+ThroughputChart.displayName = "ThroughputChart";
+
+export default ThroughputChart;
@@ -0,0 +1,226 @@
+import React, {
+  memo,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+  type RefObject,
+} from "react";
+import { cn } from "@/lib/utils";
+import { getLogAt } from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-buffer";
+import type {
+  LogBuffer,
+  LogEntry,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+interface VirtualLogListProps {
+  // Newest first, with ids falling from each entry to the next.
+  readonly logs: LogBuffer;
+  readonly renderLog: (log: LogEntry) => ReactNode;
+  // The scrolling element, shared so the parent can scroll it.
+  readonly scrollRef: RefObject<HTMLDivElement | null>;
+  readonly className?: string;
+}
+
+// Height of a collapsed entry and its gap, used until a row is measured.
+const ESTIMATED_ROW_HEIGHT = 84;
+
+// Rendered beyond each edge of the viewport, in pixels.
+const OVERSCAN = 800;
+
+// The measured rows still in the list, so offsets cost a lookup among them
+// rather than a sum over every entry.
+interface Layout {
+  // Ascending.
+  readonly indexes: readonly number[];
+  // extras[i] is how much taller than estimated the first i measured rows are.
+  readonly extras: Float64Array;
+}
+
+// Index of the entry with `id`, or -1 once it has left the list.
+const findLog = (logs: LogBuffer, id: number): number => {
+  let low = 0;
+  let high = logs.size - 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const midId = (getLogAt(logs, mid) as LogEntry).id;
+    if (midId === id) return mid;
+    if (midId > id) low = mid + 1;
+    else high = mid - 1;
+  }
+  return -1;
+};
+
+// Top of row `index`; the row count gives the total height.
+const getOffset = (layout: Layout, index: number): number => {
+  let low = 0;
+  let high = layout.indexes.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (layout.indexes[mid] < index) low = mid + 1;
+    else high = mid;
+  }
+  return index * ESTIMATED_ROW_HEIGHT + layout.extras[low];
+};
+
+// Index of the last row starting at or before `position`.
+const findIndex = (layout: Layout, count: number, position: number): number => {
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (getOffset(layout, mid) <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+// ============================================================================
+// MEASURED ROW
+// ============================================================================
+
+const MeasuredRow = ({
+  id,
+  observer,
+  children,
+}: {
+  id: number;
+  observer: ResizeObserver | null;
+  children: ReactNode;
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node || !observer) return;
+    observer.observe(node);
+    return () => observer.unobserve(node);
+  }, [observer]);
+
+  return (
+    <div ref={ref} data-log-id={id} className="pb-2">
+      {children}
+    </div>
+  );
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+// Renders only the entries around the viewport. Entries vary in height, e.g.
+// with their details open, so each rendered row is measured and the rest are
+// estimated.
+const VirtualLogList = memo<VirtualLogListProps>(
+  ({ logs, renderLog, scrollRef, className }) => {
+    // Measured heights by log id.
+    const [heights, setHeights] = useState(() => new Map<number, number>());
+    const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+    const [observer] = useState(() =>
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver((entries) => {
+            const measured = entries.map(({ target }) => {
+              const node = target as HTMLElement;
+              return [Number(node.dataset.logId), node.offsetHeight] as const;
+            });
+            setHeights((prev) => {
+              const changed = measured.filter(
+                ([id, height]) => prev.get(id) !== height
+              );
+              if (changed.length === 0) return prev;
+
+              const next = new Map(prev);
+              changed.forEach(([id, height]) => next.set(id, height));
+              return next;
+            });
+          })
+    );
+
+    useEffect(() => () => observer?.disconnect(), [observer]);
+
+    useEffect(() => {
+      const container = scrollRef.current;
+      if (!container) return;
+
+      const update = () =>
+        setViewport({
+          top: container.scrollTop,
+          height: container.clientHeight,
+        });
+      update();
+
+      container.addEventListener("scroll", update, { passive: true });
+      const resizeObserver =
+        typeof ResizeObserver === "undefined"
+          ? null
+          : new ResizeObserver(update);
+      resizeObserver?.observe(container);
+      return () => {
+        container.removeEventListener("scroll", update);
+        resizeObserver?.disconnect();
+      };
+    }, [scrollRef]);
+
+    const layout = useMemo((): Layout => {
+      const rows = Array.from(heights)
+        .map(([id, height]) => ({ index: findLog(logs, id), height }))
+        .filter(({ index }) => index >= 0)
+        .sort((a, b) => a.index - b.index);
+      const extras = new Float64Array(rows.length + 1);
+      rows.forEach(({ height }, index) => {
+        extras[index + 1] = extras[index] + height - ESTIMATED_ROW_HEIGHT;
+      });
+      return { indexes: rows.map(({ index }) => index), extras };
+    }, [logs, heights]);
+
+    // Forget rows that have long left the list.
+    useEffect(() => {
+      setHeights((prev) => {
+        if (prev.size <= layout.indexes.length + 1000) return prev;
+        return new Map(
+          Array.from(prev).filter(([id]) => findLog(logs, id) >= 0)
+        );
+      });
+    }, [logs, layout]);
+
+    const start = Math.min(
+      logs.size,
+      findIndex(layout, logs.size, viewport.top - OVERSCAN)
+    );
+    const end = Math.min(
+      logs.size,
+      findIndex(layout, logs.size, viewport.top + viewport.height + OVERSCAN) +
+        1
+    );
+
+    return (
+      <div ref={scrollRef} className={cn("overflow-y-auto", className)}>
+        <div className="p-3">
+          <div
+            style={{
+              boxSizing: "border-box",
+              height: getOffset(layout, logs.size),
+              paddingTop: getOffset(layout, start),
+            }}
+          >
+            {Array.from({ length: end - start }, (_, offset) => {
+              const log = getLogAt(logs, start + offset) as LogEntry;
+              return (
+                <MeasuredRow key={log.id} id={log.id} observer={observer}>
+                  {renderLog(log)}
+                </MeasuredRow>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    );
+  }
+);
+
+VirtualLogList.displayName = "VirtualLogList";
+
+export default VirtualLogList;
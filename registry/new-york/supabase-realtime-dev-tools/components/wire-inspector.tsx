@@ -0,0 +1,270 @@
+import React, { memo, useCallback, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import {
+  ArrowDown,
+  ArrowUp,
+  Cable,
+  ChevronDown,
+  ChevronRight,
+  Pause,
+  Play,
+  Trash2,
+} from "lucide-react";
+import type {
+  WireFrame,
+  WireState,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  WIRE_EVENTS,
+  formatBytes,
+  getReplyStatus,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/wire-tap";
+
+interface WireInspectorProps {
+  readonly wire: WireState;
+  // False when the client does not expose its serializer hooks.
+  readonly supported: boolean;
+  readonly onToggleCapture: () => void;
+  readonly onClear: () => void;
+}
+
+type DirectionFilter = "all" | WireFrame["direction"];
+
+const formatFrameTime = (at: number): string =>
+  new Date(at).toLocaleTimeString("en-US", {
+    hour12: false,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    fractionalSecondDigits: 3,
+  });
+
+// ============================================================================
+// FRAME ROW
+// ============================================================================
+
+const WireFrameRow = memo<{
+  frame: WireFrame;
+  isExpanded: boolean;
+  onToggle: (id: number) => void;
+}>(({ frame, isExpanded, onToggle }) => {
+  const status = getReplyStatus(frame);
+  const isFailure =
+    (status !== null && status !== "ok") ||
+    frame.event === "phx_error" ||
+    frame.event === "phx_close";
+
+  return (
+    <div
+      className={cn(
+        "border-b px-2 py-1 text-xs",
+        isFailure && "bg-red-50 dark:bg-red-950/30"
+      )}
+    >
+      <button
+        type="button"
+        onClick={() => onToggle(frame.id)}
+        className="flex w-full items-center gap-2 text-left"
+      >
+        {isExpanded ? (
+          <ChevronDown className="w-3 h-3 shrink-0 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-3 h-3 shrink-0 text-muted-foreground" />
+        )}
+        {frame.direction === "out" ? (
+          <ArrowUp
+            className="w-3 h-3 shrink-0 text-blue-500"
+            aria-label="Sent"
+          />
+        ) : (
+          <ArrowDown
+            className="w-3 h-3 shrink-0 text-green-500"
+            aria-label="Received"
+          />
+        )}
+        <span className="font-mono text-muted-foreground shrink-0">
+          {formatFrameTime(frame.at)}
+        </span>
+        <Badge
+          variant={isFailure ? "destructive" : "secondary"}
+          className="text-xs font-mono shrink-0"
+        >
+          {frame.event}
+          {status && ` ${status}`}
+        </Badge>
+        <span className="flex-1 truncate font-mono" title={frame.topic}>
+          {frame.topic}
+        </span>
+        <span
+          className="font-mono text-muted-foreground shrink-0"
+          title="ref / join_ref"
+        >
+          {frame.ref ?? "–"}/{frame.joinRef ?? "–"}
+        </span>
+        <span className="w-14 text-right font-mono text-muted-foreground shrink-0">
+          {formatBytes(frame.size)}
+        </span>
+      </button>
+      {isExpanded && (
+        <pre className="mt-1 max-h-60 overflow-auto rounded bg-muted/50 p-2 text-xs font-mono whitespace-pre-wrap break-words">
+          {JSON.stringify(frame.payload, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+});
+
+WireFrameRow.displayName = "WireFrameRow";
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const WireInspector = memo<WireInspectorProps>(
+  ({ wire, supported, onToggleCapture, onClear }) => {
+    const [eventFilter, setEventFilter] = useState<string>("all");
+    const [directionFilter, setDirectionFilter] =
+      useState<DirectionFilter>("all");
+    const [topicFilter, setTopicFilter] = useState("");
+    const [expanded, setExpanded] = useState<ReadonlySet<number>>(new Set());
+
+    const frames = useMemo(() => {
+      const topic = topicFilter.trim().toLowerCase();
+      return wire.frames.filter(
+        (frame) =>
+          (eventFilter === "all" || frame.event === eventFilter) &&
+          (directionFilter === "all" || frame.direction === directionFilter) &&
+          (!topic || frame.topic.toLowerCase().includes(topic))
+      );
+    }, [wire.frames, eventFilter, directionFilter, topicFilter]);
+
+    const totalBytes = useMemo(
+      () => frames.reduce((total, frame) => total + frame.size, 0),
+      [frames]
+    );
+
+    const toggleFrame = useCallback((id: number) => {
+      setExpanded((prev) => {
+        const next = new Set(prev);
+        if (next.has(id)) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+        return next;
+      });
+    }, []);
+
+    return (
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <Cable className="w-4 h-4 text-muted-foreground" />
+          <h3 className="flex-1 text-sm font-semibold">Wire Frames</h3>
+          <Badge variant="outline" className="text-xs">
+            {frames.length} · {formatBytes(totalBytes)}
+          </Badge>
+          <Button
+            onClick={onToggleCapture}
+            disabled={!supported}
+            variant={wire.capturing ? "destructive" : "default"}
+            size="sm"
+            className="h-7 px-2"
+          >
+            {wire.capturing ? (
+              <Pause className="w-3 h-3 mr-1" />
+            ) : (
+              <Play className="w-3 h-3 mr-1" />
+            )}
+            {wire.capturing ? "Pause" : "Capture"}
+          </Button>
+          <Button
+            onClick={() => {
+              onClear();
+              setExpanded(new Set());
+            }}
+            disabled={wire.frames.length === 0}
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            title="Clear frames"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+
+        {!supported ? (
+          <p className="text-xs text-muted-foreground">
+            This client does not expose the realtime <code>encode</code>/
+            <code>decode</code> hooks, so frames cannot be captured.
+          </p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <select
+                value={eventFilter}
+                onChange={(e) => setEventFilter(e.target.value)}
+                className="h-8 rounded-md border border-input bg-transparent px-2 text-xs font-mono shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              >
+                <option value="all">All events</option>
+                {WIRE_EVENTS.map((event) => (
+                  <option key={event} value={event}>
+                    {event}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={directionFilter}
+                onChange={(e) =>
+                  setDirectionFilter(e.target.value as DirectionFilter)
+                }
+                className="h-8 rounded-md border border-input bg-transparent px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              >
+                <option value="all">↑↓ Both</option>
+                <option value="out">↑ Sent</option>
+                <option value="in">↓ Received</option>
+              </select>
+              <Input
+                value={topicFilter}
+                onChange={(e) => setTopicFilter(e.target.value)}
+                placeholder="Filter topic..."
+                className="h-8 flex-1 text-xs font-mono"
+              />
+            </div>
+
+            <ScrollArea className="h-[calc(100vh-260px)] rounded-md border">
+              {frames.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Cable className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                  <p className="text-sm">No frames</p>
+                  <p className="text-xs mt-1">
+                    {wire.capturing
+                      ? "Waiting for socket traffic..."
+                      : "Press Capture to record socket traffic"}
+                  </p>
+                </div>
+              ) : (
+                frames.map((frame) => (
+                  <WireFrameRow
+                    key={frame.id}
+                    frame={frame}
+                    isExpanded={expanded.has(frame.id)}
+                    onToggle={toggleFrame}
+                  />
+                ))
+              )}
+              <ScrollBar orientation="vertical" />
+            </ScrollArea>
+          </>
+        )}
+      </div>
+    );
+  }
+);
+
+WireInspector.displayName = "WireInspector";
+
+export default WireInspector;
@@ -0,0 +1,37 @@
+import { useMemo, useRef, type RefObject } from "react";
+import type {
+  SupabaseDevToolsHandle,
+  LogEntry,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// DEVTOOLS CONTROLLER
+// ============================================================================
+
+export interface SupabaseDevToolsController extends SupabaseDevToolsHandle {
+  // Pass to <SupabaseDevTools ref={...} />.
+  readonly ref: RefObject<SupabaseDevToolsHandle | null>;
+}
+
+const NO_LOGS: readonly LogEntry[] = [];
+
+// Stable controls for a mounted SupabaseDevTools. Calls made while the
+// panel is not mounted are ignored.
+export const useSupabaseDevTools = (): SupabaseDevToolsController => {
+  const ref = useRef<SupabaseDevToolsHandle>(null);
+
+  return useMemo(
+    () => ({
+      ref,
+      open: () => ref.current?.open(),
+      close: () => ref.current?.close(),
+      startMonitoring: (channelName) =>
+        ref.current?.startMonitoring(channelName),
+      stopMonitoring: (channelName) => ref.current?.stopMonitoring(channelName),
+      log: (entry) => ref.current?.log(entry),
+      clear: () => ref.current?.clear(),
+      getLogs: () => ref.current?.getLogs() ?? NO_LOGS,
+    }),
+    []
+  );
+};
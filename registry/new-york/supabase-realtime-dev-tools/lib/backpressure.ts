@@ -0,0 +1,126 @@
+import type {
+  BackpressurePolicy,
+  DroppedEvents,
+  RecordedEvent,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// BACKPRESSURE
+// ============================================================================
+
+export const BACKPRESSURE_POLICIES: readonly {
+  readonly value: BackpressurePolicy;
+  readonly label: string;
+}[] = [
+  { value: "none", label: "Keep everything" },
+  { value: "sample", label: "Sample" },
+  { value: "drop-oldest", label: "Drop oldest" },
+  { value: "drop-events", label: "Drop by event name" },
+];
+
+export const EMPTY_DROPPED_EVENTS: DroppedEvents = { total: 0, byEvent: {} };
+
+export interface BackpressureOptions {
+  readonly policy: BackpressurePolicy;
+  readonly maxEventsPerBatch: number;
+  readonly droppedEventNames: readonly string[];
+}
+
+export interface BatchSelection<T> {
+  readonly kept: T[];
+  readonly dropped: Record<string, number>;
+}
+
+// Only realtime traffic is subject to backpressure.
+const isTraffic = (entry: Pick<RecordedEvent, "source">): boolean =>
+  entry.source === "broadcast" ||
+  entry.source === "database" ||
+  entry.source === "presence";
+
+const getDropKey = (entry: Pick<RecordedEvent, "source" | "event">): string =>
+  entry.event || entry.source;
+
+// Indices, into `traffic`, of the entries the policy sheds.
+const pickDropped = (
+  traffic: readonly Pick<RecordedEvent, "event">[],
+  { policy, maxEventsPerBatch, droppedEventNames }: BackpressureOptions
+): Set<number> => {
+  const excess = traffic.length - maxEventsPerBatch;
+  const dropped = new Set<number>();
+  if (excess <= 0) return dropped;
+
+  switch (policy) {
+    case "sample": {
+      // Keep an evenly spaced maxEventsPerBatch of them.
+      const kept = new Set(
+        Array.from({ length: maxEventsPerBatch }, (_, index) =>
+          Math.floor((index * traffic.length) / maxEventsPerBatch)
+        )
+      );
+      traffic.forEach((_, index) => {
+        if (!kept.has(index)) dropped.add(index);
+      });
+      break;
+    }
+    case "drop-oldest":
+      for (let index = 0; index < excess; index += 1) dropped.add(index);
+      break;
+    case "drop-events":
+      traffic.forEach((entry, index) => {
+        if (entry.event && droppedEventNames.includes(entry.event)) {
+          dropped.add(index);
+        }
+      });
+      break;
+    case "none":
+      break;
+  }
+  return dropped;
+};
+
+// Applies the policy to one batch, oldest first, keeping its order.
+export const selectBatch = <T extends Pick<RecordedEvent, "source" | "event">>(
+  batch: readonly T[],
+  options: BackpressureOptions
+): BatchSelection<T> => {
+  const traffic = batch.filter(isTraffic);
+  const droppedIndices = pickDropped(traffic, options);
+  if (droppedIndices.size === 0) return { kept: [...batch], dropped: {} };
+
+  const droppedEntries = new Set(
+    traffic.filter((_, index) => droppedIndices.has(index))
+  );
+  const dropped: Record<string, number> = {};
+  droppedEntries.forEach((entry) => {
+    const key = getDropKey(entry);
+    dropped[key] = (dropped[key] ?? 0) + 1;
+  });
+
+  return {
+    kept: batch.filter((entry) => !droppedEntries.has(entry)),
+    dropped,
+  };
+};
+
+export const addDroppedEvents = (
+  current: DroppedEvents,
+  dropped: Readonly<Record<string, number>>
+): DroppedEvents => {
+  const entries = Object.entries(dropped);
+  if (entries.length === 0) return current;
+
+  const byEvent = { ...current.byEvent };
+  let total = current.total;
+  entries.forEach(([key, count]) => {
+    byEvent[key] = (byEvent[key] ?? 0) + count;
+    total += count;
+  });
+  return { total, byEvent };
+};
+
+// "cursor ×120, typing ×4", most dropped first.
+export const formatDroppedEvents = (dropped: DroppedEvents): string =>
+  Object.entries(dropped.byEvent)
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, count]) => `${key} ×${count}`)
+    .join(", ");
@@ -0,0 +1,135 @@
+import type {
+  LogEntry,
+  RealtimeChannel,
+  RealtimeChannelBinding,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// APP CHANNEL DISCOVERY
+// ============================================================================
+
+export interface DiscoveredBinding {
+  readonly type: string;
+  // Short description of the listener's filter, e.g. `public.messages INSERT`.
+  readonly label: string;
+}
+
+export interface DiscoveredChannel {
+  readonly topic: string;
+  readonly name: string;
+  // supabase-js channel state: closed, errored, joined, joining or leaving.
+  readonly state: string;
+  readonly bindings: readonly DiscoveredBinding[];
+}
+
+const TOPIC_PREFIX = "realtime:";
+
+export const getChannelName = (topic: string): string =>
+  topic.startsWith(TOPIC_PREFIX) ? topic.slice(TOPIC_PREFIX.length) : topic;
+
+export const getChannelTopic = (channelName: string): string =>
+  `${TOPIC_PREFIX}${channelName}`;
+
+const filterValue = (
+  binding: RealtimeChannelBinding,
+  key: string
+): string | null => {
+  const value = binding.filter?.[key];
+  return typeof value === "string" && value ? value : null;
+};
+
+export const getBindingLabel = (binding: RealtimeChannelBinding): string => {
+  const event = filterValue(binding, "event") ?? "*";
+
+  if (binding.type === "postgres_changes") {
+    return [
+      `${filterValue(binding, "schema") ?? "*"}.${
+        filterValue(binding, "table") ?? "*"
+      }`,
+      event !== "*" ? event : null,
+      filterValue(binding, "filter"),
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+  return `${binding.type}:${event}`;
+};
+
+const getBindings = (channel: RealtimeChannel): RealtimeChannelBinding[] =>
+  Object.values(channel.bindings ?? {}).flat();
+
+export const describeChannel = (
+  channel: RealtimeChannel
+): DiscoveredChannel => {
+  const topic = channel.topic ?? "";
+  return {
+    topic,
+    name: getChannelName(topic),
+    state: channel.state ?? "unknown",
+    bindings: getBindings(channel).map((binding) => ({
+      type: binding.type,
+      label: getBindingLabel(binding),
+    })),
+  };
+};
+
+// ============================================================================
+// PASSIVE TAP
+// ============================================================================
+
+export interface TappedEvent {
+  readonly source: LogEntry["source"];
+  readonly event: string;
+  readonly binding: string;
+  readonly payload: unknown;
+}
+
+const SOURCES: Record<string, LogEntry["source"]> = {
+  broadcast: "broadcast",
+  postgres_changes: "database",
+  presence: "presence",
+};
+
+const getEventName = (payload: unknown, fallback: string): string => {
+  if (!payload || typeof payload !== "object") return fallback;
+  const { event, eventType } = payload as Record<string, unknown>;
+  if (typeof eventType === "string") return eventType;
+  if (typeof event === "string") return event;
+  return fallback;
+};
+
+// Wraps the callback of every listener already on the channel, so the tap
+// sees each payload exactly as the app's listener receives it and in the same
+// order. Nothing is sent and the subscription is left alone. Listeners added
+// after tapping are not seen. Returns a function that restores the originals.
+export const tapChannel = (
+  channel: RealtimeChannel,
+  onEvent: (event: TappedEvent) => void
+): (() => void) => {
+  const restores = getBindings(channel).map((binding) => {
+    const original = binding.callback;
+    const label = getBindingLabel(binding);
+
+    const tapped = (payload: unknown, ref?: string) => {
+      try {
+        onEvent({
+          source: SOURCES[binding.type] ?? "system",
+          event: getEventName(payload, binding.type),
+          binding: label,
+          payload,
+        });
+      } catch (error) {
+        console.warn("SupabaseDevTools: Tap failed", error);
+      }
+      return original(payload, ref);
+    };
+
+    binding.callback = tapped;
+    return () => {
+      // Leave the callback alone if something else replaced it since.
+      if (binding.callback === tapped) binding.callback = original;
+    };
+  });
+
+  return () => restores.forEach((restore) => restore());
+};
@@ -0,0 +1,222 @@
+import type {
+  LatencySample,
+  RealtimeChannel,
+  SupabaseClient,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// LATENCY PROBE
+// ============================================================================
+
+export const LATENCY_PROBE_EVENT = "devtools-latency-probe";
+export const LATENCY_PROBE_INTERVALS = [1000, 2000, 5000, 10000] as const;
+export const MAX_LATENCY_SAMPLES = 300;
+
+// A probe that has neither been acked nor echoed by then counts as lost.
+const PROBE_TIMEOUT_MS = 10000;
+
+export type LatencyProbeStatus = "subscribed" | "error" | "closed";
+
+export interface LatencyProbe {
+  readonly channelName: string;
+  start(): void;
+  stop(): void;
+}
+
+interface LatencyProbeHandlers {
+  readonly onSample: (sample: LatencySample) => void;
+  readonly onStatus: (status: LatencyProbeStatus, error?: Error) => void;
+}
+
+interface PendingProbe {
+  readonly sentAt: number;
+  readonly startedAt: number;
+  ackMs: number | null;
+  selfMs: number | null;
+  result: LatencySample["result"] | null;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+const now = (): number =>
+  typeof performance !== "undefined" ? performance.now() : Date.now();
+
+// The probe runs on its own channel with `self` and `ack` enabled, so the
+// monitored channels keep the options the app uses. Each probe is a broadcast
+// timed from send to the server ack and from send to its own echo.
+export const createLatencyProbe = (
+  supabase: SupabaseClient,
+  intervalMs: number,
+  { onSample, onStatus }: LatencyProbeHandlers
+): LatencyProbe => {
+  const probeId = Math.random().toString(36).slice(2, 9);
+  const channelName = `${LATENCY_PROBE_EVENT}-${probeId}`;
+  const pending = new Map<number, PendingProbe>();
+  let channel: RealtimeChannel | null = null;
+  let intervalId: ReturnType<typeof setInterval> | null = null;
+  let seq = 0;
+
+  const finish = (probeSeq: number) => {
+    const probe = pending.get(probeSeq);
+    if (!probe) return;
+
+    clearTimeout(probe.timeoutId);
+    pending.delete(probeSeq);
+    onSample({
+      seq: probeSeq,
+      sentAt: probe.sentAt,
+      ackMs: probe.ackMs,
+      selfMs: probe.selfMs,
+      result: probe.result ?? "timed out",
+    });
+  };
+
+  const settleIfDone = (probeSeq: number) => {
+    const probe = pending.get(probeSeq);
+    if (!probe || probe.result === null) return;
+    if (probe.result !== "ok" || probe.selfMs !== null) finish(probeSeq);
+  };
+
+  const sendProbe = () => {
+    if (!channel) return;
+
+    seq += 1;
+    const probeSeq = seq;
+    const startedAt = now();
+    pending.set(probeSeq, {
+      sentAt: Date.now(),
+      startedAt,
+      ackMs: null,
+      selfMs: null,
+      result: null,
+      timeoutId: setTimeout(() => finish(probeSeq), PROBE_TIMEOUT_MS),
+    });
+
+    channel
+      .send({
+        type: "broadcast",
+        event: LATENCY_PROBE_EVENT,
+        payload: { probeId, seq: probeSeq },
+      })
+      .then((result) => {
+        const probe = pending.get(probeSeq);
+        if (!probe) return;
+        probe.result = result;
+        if (result === "ok") probe.ackMs = now() - probe.startedAt;
+        settleIfDone(probeSeq);
+      })
+      .catch(() => {
+        const probe = pending.get(probeSeq);
+        if (!probe) return;
+        probe.result = "error";
+        settleIfDone(probeSeq);
+      });
+  };
+
+  const clearTimers = () => {
+    if (intervalId !== null) {
+      clearInterval(intervalId);
+      intervalId = null;
+    }
+    pending.forEach((probe) => clearTimeout(probe.timeoutId));
+    pending.clear();
+  };
+
+  return {
+    channelName,
+    start() {
+      if (channel) return;
+
+      const probeChannel = supabase.channel(channelName, {
+        config: { broadcast: { self: true, ack: true } },
+      });
+      channel = probeChannel;
+
+      probeChannel.on(
+        "broadcast",
+        { event: LATENCY_PROBE_EVENT },
+        ({ payload }: { payload?: { probeId?: string; seq?: number } }) => {
+          if (payload?.probeId !== probeId || typeof payload.seq !== "number") {
+            return;
+          }
+          const probe = pending.get(payload.seq);
+          if (!probe) return;
+          probe.selfMs = now() - probe.startedAt;
+          settleIfDone(payload.seq);
+        }
+      );
+
+      probeChannel.subscribe((status: string, err?: Error) => {
+        if (channel !== probeChannel) return;
+
+        if (status === "SUBSCRIBED") {
+          onStatus("subscribed");
+          if (intervalId === null) {
+            sendProbe();
+            intervalId = setInterval(sendProbe, intervalMs);
+          }
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          clearTimers();
+          onStatus("error", err ?? new Error(status));
+        } else if (status === "CLOSED") {
+          clearTimers();
+          onStatus("closed");
+        }
+      });
+    },
+    stop() {
+      clearTimers();
+      const current = channel;
+      // Drop the channel first so the CLOSED status from unsubscribe is
+      // ignored.
+      channel = null;
+      current?.unsubscribe();
+    },
+  };
+};
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+export interface LatencySummary {
+  readonly count: number;
+  readonly lost: number;
+  readonly min: number | null;
+  readonly avg: number | null;
+  readonly p95: number | null;
+  readonly p99: number | null;
+}
+
+// Nearest-rank percentile of an ascending list.
+const percentile = (sorted: readonly number[], p: number): number | null =>
+  sorted.length === 0
+    ? null
+    : sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+export const summarizeLatency = (
+  samples: readonly LatencySample[],
+  measure: "ackMs" | "selfMs"
+): LatencySummary => {
+  const values = samples
+    .map((sample) => sample[measure])
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    count: values.length,
+    lost: samples.length - values.length,
+    min: values.length ? values[0] : null,
+    avg: values.length
+      ? values.reduce((total, value) => total + value, 0) / values.length
+      : null,
+    p95: percentile(values, 0.95),
+    p99: percentile(values, 0.99),
+  };
+};
+
+export const formatLatency = (value: number | null): string =>
+  value === null
+    ? "—"
+    : value < 10
+    ? `${value.toFixed(1)}ms`
+    : `${Math.round(value)}ms`;
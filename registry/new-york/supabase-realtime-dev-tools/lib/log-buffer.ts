@@ -0,0 +1,175 @@
+import type {
+  LogBuffer,
+  LogEntry,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// LOG BUFFER
+// ============================================================================
+
+export const MIN_LOG_CAPACITY = 10;
+export const MAX_LOG_CAPACITY = 100000;
+
+// Slots per chunk. A push copies at most the chunks it writes, so older
+// buffers stay readable without copying the whole ring.
+const CHUNK_SIZE = 1024;
+
+export const clampLogCapacity = (capacity: number): number =>
+  Math.max(
+    MIN_LOG_CAPACITY,
+    Math.min(MAX_LOG_CAPACITY, Math.floor(capacity) || MIN_LOG_CAPACITY)
+  );
+
+// Entries are newest first and trimmed to the capacity.
+export const createLogBuffer = (
+  capacity: number,
+  entries: readonly LogEntry[] = []
+): LogBuffer => {
+  const size = Math.min(capacity, entries.length);
+  // Slot i holds the i-th entry pushed, modulo the capacity.
+  const slots = entries.slice(0, size).reverse();
+  const chunks = Array.from(
+    { length: Math.ceil(capacity / CHUNK_SIZE) },
+    (_, index) => slots.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+  );
+  return { capacity, size, pushed: size, chunks };
+};
+
+// Newest first: index 0 is the last entry pushed.
+export const getLogAt = (
+  buffer: LogBuffer,
+  index: number
+): LogEntry | undefined => {
+  if (index < 0 || index >= buffer.size) return undefined;
+  const slot = (buffer.pushed - 1 - index) % buffer.capacity;
+  return buffer.chunks[Math.floor(slot / CHUNK_SIZE)][slot % CHUNK_SIZE];
+};
+
+// Oldest first. Only the chunks written to are copied, once per call, so push
+// a batch at once rather than entry by entry.
+export const pushLogs = (
+  buffer: LogBuffer,
+  entries: readonly LogEntry[]
+): LogBuffer => {
+  if (entries.length === 0) return buffer;
+
+  const chunks = buffer.chunks.slice();
+  const written = new Map<number, (LogEntry | undefined)[]>();
+  entries.forEach((entry, index) => {
+    const slot = (buffer.pushed + index) % buffer.capacity;
+    const chunkIndex = Math.floor(slot / CHUNK_SIZE);
+    let chunk = written.get(chunkIndex);
+    if (!chunk) {
+      chunk = chunks[chunkIndex].slice();
+      chunks[chunkIndex] = chunk;
+      written.set(chunkIndex, chunk);
+    }
+    chunk[slot % CHUNK_SIZE] = entry;
+  });
+  return {
+    ...buffer,
+    chunks,
+    size: Math.min(buffer.capacity, buffer.size + entries.length),
+    pushed: buffer.pushed + entries.length,
+  };
+};
+
+// Oldest first: the entries that pushing `count` more would overwrite.
+export const getEvictedLogs = (
+  buffer: LogBuffer,
+  count: number
+): LogEntry[] => {
+  const evicted = Math.min(buffer.size, buffer.size + count - buffer.capacity);
+  return Array.from(
+    { length: Math.max(0, evicted) },
+    (_, index) => getLogAt(buffer, buffer.size - 1 - index) as LogEntry
+  );
+};
+
+// Oldest first. Log ids only ever grow, so these are the entries logged after
+// `id`, whether or not the buffer was cleared or resized in between, as long as
+// it still holds them.
+export const getLogsAfter = (buffer: LogBuffer, id: number): LogEntry[] => {
+  const logs: LogEntry[] = [];
+  for (let index = 0; index < buffer.size; index += 1) {
+    const log = getLogAt(buffer, index) as LogEntry;
+    if (log.id <= id) break;
+    logs.push(log);
+  }
+  return logs.reverse();
+};
+
+const arrays = new WeakMap<LogBuffer, readonly LogEntry[]>();
+
+// Newest first. Cached per buffer, so renders between pushes share one array.
+export const toLogArray = (buffer: LogBuffer): readonly LogEntry[] => {
+  let logs = arrays.get(buffer);
+  if (!logs) {
+    logs = Array.from(
+      { length: buffer.size },
+      (_, index) => getLogAt(buffer, index) as LogEntry
+    );
+    arrays.set(buffer, logs);
+  }
+  return logs;
+};
+
+// Shrinking keeps the newest entries.
+export const resizeLogBuffer = (
+  buffer: LogBuffer,
+  capacity: number
+): LogBuffer =>
+  capacity === buffer.capacity
+    ? buffer
+    : createLogBuffer(capacity, toLogArray(buffer));
+
+// ============================================================================
+// FILTERED VIEW
+// ============================================================================
+
+interface FilteredLogs {
+  readonly source: LogBuffer;
+  // Id of the newest source entry filtered so far.
+  readonly lastId: number;
+  readonly logs: LogBuffer;
+}
+
+const filteredViews = new WeakMap<(log: LogEntry) => boolean, FilteredLogs>();
+
+// The entries of `buffer` that pass `filter`, as a buffer of their own. Each
+// filter function keeps its last result, so a newer version of the same buffer
+// only runs the filter over the entries logged since; pass a new function to
+// start over, e.g. when the conditions change or for another buffer.
+export const filterLogBuffer = (
+  buffer: LogBuffer,
+  filter: (log: LogEntry) => boolean
+): LogBuffer => {
+  const previous = filteredViews.get(filter);
+  if (previous?.source === buffer) return previous.logs;
+
+  const lastId = previous?.lastId ?? -Infinity;
+  let logs = resizeLogBuffer(
+    previous?.logs ?? createLogBuffer(buffer.capacity),
+    buffer.capacity
+  );
+  logs = pushLogs(logs, getLogsAfter(buffer, lastId).filter(filter));
+
+  // Matches older than anything the buffer still holds were evicted or
+  // cleared from it.
+  const oldest = getLogAt(buffer, buffer.size - 1);
+  let size = logs.size;
+  while (
+    size > 0 &&
+    (!oldest || (getLogAt(logs, size - 1) as LogEntry).id < oldest.id)
+  ) {
+    size -= 1;
+  }
+  if (size !== logs.size) logs = { ...logs, size };
+
+  filteredViews.set(filter, {
+    source: buffer,
+    lastId: getLogAt(buffer, 0)?.id ?? lastId,
+    logs,
+  });
+  return logs;
+};
@@ -0,0 +1,391 @@
+import type {
+  ConnectionStats,
+  DevToolsConfig,
+  LogEntry,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// CAPTURE EXPORT & IMPORT
+// ============================================================================
+
+export const CAPTURE_FORMAT = "supabase-realtime-devtools-capture";
+export const CAPTURE_VERSION = 1;
+
+export type CaptureFileFormat = "json" | "ndjson" | "csv";
+
+export type SerializedStats = Omit<ConnectionStats, "lastActivity"> & {
+  readonly lastActivity: string | null;
+};
+
+export interface CaptureMetadata {
+  readonly format: typeof CAPTURE_FORMAT;
+  readonly version: number;
+  readonly exportedAt: string;
+  readonly scope: "all" | "filtered";
+  // Parsed captures always have `channels`; anything else may be missing
+  // from captures written by hand or by other versions.
+  readonly config: Partial<DevToolsConfig>;
+  readonly stats: SerializedStats;
+}
+
+export interface LogCapture extends CaptureMetadata {
+  readonly logs: readonly LogEntry[];
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "receivedAt",
+  "type",
+  "source",
+  "channelName",
+  "event",
+  "binding",
+  "size",
+  "message",
+  "details",
+  "tabId",
+  "replayed",
+] as const;
+
+export const LOG_TYPES: readonly LogEntry["type"][] = [
+  "info",
+  "success",
+  "error",
+  "warning",
+];
+
+export const LOG_SOURCES: readonly LogEntry["source"][] = [
+  "broadcast",
+  "database",
+  "presence",
+  "system",
+  "self",
+];
+
+const FILE_EXTENSIONS: Record<CaptureFileFormat, string> = {
+  json: "json",
+  ndjson: "ndjson",
+  csv: "csv",
+};
+
+const MIME_TYPES: Record<CaptureFileFormat, string> = {
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+  csv: "text/csv",
+};
+
+export const createCapture = (
+  logs: readonly LogEntry[],
+  config: DevToolsConfig,
+  stats: ConnectionStats,
+  scope: CaptureMetadata["scope"]
+): LogCapture => ({
+  format: CAPTURE_FORMAT,
+  version: CAPTURE_VERSION,
+  exportedAt: new Date().toISOString(),
+  scope,
+  config,
+  stats: {
+    ...stats,
+    lastActivity: stats.lastActivity ? stats.lastActivity.toISOString() : null,
+  },
+  logs,
+});
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+// Details can hold anything the app sent. Their JSON form is what an export
+// keeps, and it can always be structured-cloned into IndexedDB or across tabs.
+// Throws on values JSON cannot hold, like BigInt or circular references.
+export const toJsonLogs = (logs: readonly LogEntry[]): LogEntry[] =>
+  JSON.parse(JSON.stringify(logs));
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (capture: LogCapture): string => {
+  const { logs, ...metadata } = capture;
+  const rows = logs.map((log) =>
+    CSV_COLUMNS.map((column) => {
+      const value =
+        column === "details"
+          ? log.details
+            ? JSON.stringify(log.details)
+            : ""
+          : log[column];
+      return escapeCsvCell(value === undefined ? "" : String(value));
+    }).join(",")
+  );
+
+  // Metadata rides along as a comment line so the rest stays plain CSV.
+  return [`# ${JSON.stringify(metadata)}`, CSV_COLUMNS.join(","), ...rows].join(
+    "\r\n"
+  );
+};
+
+export const serializeCapture = (
+  capture: LogCapture,
+  format: CaptureFileFormat
+): string => {
+  switch (format) {
+    case "json":
+      return JSON.stringify(capture, null, 2);
+    case "ndjson": {
+      const { logs, ...metadata } = capture;
+      return [metadata, ...logs].map((line) => JSON.stringify(line)).join("\n");
+    }
+    case "csv":
+      return toCsv(capture);
+  }
+};
+
+export const getCaptureFileName = (
+  capture: CaptureMetadata,
+  format: CaptureFileFormat
+): string => {
+  const stamp = capture.exportedAt.replace(/[:.]/g, "-");
+  return `supabase-realtime-${capture.scope}-${stamp}.${FILE_EXTENSIONS[format]}`;
+};
+
+export const downloadCapture = (
+  capture: LogCapture,
+  format: CaptureFileFormat
+): void => {
+  const blob = new Blob([serializeCapture(capture, format)], {
+    type: MIME_TYPES[format],
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getCaptureFileName(capture, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const normalizeLogEntry = (raw: unknown, index: number): LogEntry => {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`Log #${index + 1} is not an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.message !== "string") {
+    throw new Error(`Log #${index + 1} has no message`);
+  }
+
+  const id = Number(entry.id);
+  const receivedAt = Number(entry.receivedAt);
+  const size = entry.size === "" ? NaN : Number(entry.size);
+  const details =
+    typeof entry.details === "string"
+      ? entry.details
+        ? JSON.parse(entry.details)
+        : undefined
+      : entry.details;
+
+  return {
+    id: Number.isFinite(id) ? id : index + 1,
+    timestamp: typeof entry.timestamp === "string" ? entry.timestamp : "",
+    receivedAt: Number.isFinite(receivedAt) ? receivedAt : 0,
+    type: LOG_TYPES.includes(entry.type as LogEntry["type"])
+      ? (entry.type as LogEntry["type"])
+      : "info",
+    source: LOG_SOURCES.includes(entry.source as LogEntry["source"])
+      ? (entry.source as LogEntry["source"])
+      : "system",
+    message: entry.message,
+    details:
+      details && typeof details === "object"
+        ? (details as Record<string, unknown>)
+        : undefined,
+    channelName:
+      typeof entry.channelName === "string" && entry.channelName
+        ? entry.channelName
+        : undefined,
+    event:
+      typeof entry.event === "string" && entry.event ? entry.event : undefined,
+    binding:
+      typeof entry.binding === "string" && entry.binding
+        ? entry.binding
+        : undefined,
+    size: Number.isFinite(size) ? size : undefined,
+    // CSV cells are strings.
+    replayed:
+      entry.replayed === true || entry.replayed === "true" ? true : undefined,
+    tabId:
+      typeof entry.tabId === "string" && entry.tabId ? entry.tabId : undefined,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : 0;
+
+// Without a channel list, the channels are the ones the logs came from.
+const normalizeConfig = (
+  raw: unknown,
+  logs: readonly LogEntry[]
+): CaptureMetadata["config"] => {
+  const config = isRecord(raw) ? raw : {};
+  const channels = Array.isArray(config.channels)
+    ? config.channels.filter(
+        (name): name is string => typeof name === "string" && name !== ""
+      )
+    : Array.from(
+        new Set(
+          logs.flatMap((log) => (log.channelName ? [log.channelName] : []))
+        )
+      );
+  return { ...config, channels };
+};
+
+const normalizeStats = (raw: unknown): SerializedStats => {
+  const stats = isRecord(raw) ? raw : {};
+  const messageTypes = isRecord(stats.messageTypes) ? stats.messageTypes : {};
+  const lastActivity =
+    typeof stats.lastActivity === "string" &&
+    !Number.isNaN(Date.parse(stats.lastActivity))
+      ? stats.lastActivity
+      : null;
+
+  return {
+    isConnected: stats.isConnected === true,
+    totalMessages: toCount(stats.totalMessages),
+    lastActivity,
+    uptime: toCount(stats.uptime),
+    messageTypes: {
+      broadcast: toCount(messageTypes.broadcast),
+      database: toCount(messageTypes.database),
+      presence: toCount(messageTypes.presence),
+      system: toCount(messageTypes.system),
+    },
+  };
+};
+
+const assertMetadata = (value: unknown): CaptureMetadata => {
+  const metadata = value as Partial<CaptureMetadata> | null;
+  if (!metadata || metadata.format !== CAPTURE_FORMAT) {
+    throw new Error("Not a Supabase Realtime DevTools capture");
+  }
+  if (
+    typeof metadata.version !== "number" ||
+    metadata.version > CAPTURE_VERSION
+  ) {
+    throw new Error(`Unsupported capture version: ${metadata.version}`);
+  }
+  return metadata as CaptureMetadata;
+};
+
+const withLogs = (
+  metadata: CaptureMetadata,
+  rawLogs: unknown[]
+): LogCapture => {
+  const logs = rawLogs.map(normalizeLogEntry);
+  return {
+    ...metadata,
+    config: normalizeConfig(metadata.config, logs),
+    stats: normalizeStats(metadata.stats),
+    logs,
+  };
+};
+
+const parseCsvCapture = (text: string): LogCapture => {
+  const [metadataLine, ...rest] = text.split(/\r?\n/);
+  if (!metadataLine.startsWith("# ")) {
+    throw new Error("CSV capture is missing its metadata line");
+  }
+
+  const metadata = assertMetadata(JSON.parse(metadataLine.slice(2)));
+  const [header, ...rows] = parseCsvRows(rest.join("\n"));
+  if (!header) return withLogs(metadata, []);
+
+  const logs = rows
+    .filter((row) => row.some((cell) => cell !== ""))
+    .map((row) =>
+      Object.fromEntries(header.map((column, i) => [column, row[i] ?? ""]))
+    );
+  return withLogs(metadata, logs);
+};
+
+export const parseCapture = (text: string): LogCapture => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Capture file is empty");
+
+  if (trimmed.startsWith("#")) {
+    return parseCsvCapture(trimmed);
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    const metadata = assertMetadata(parsed);
+    return withLogs(metadata, Array.isArray(parsed.logs) ? parsed.logs : []);
+  } catch (error) {
+    // Multi-line NDJSON is not valid JSON as a whole; anything else is.
+    if (!(error instanceof SyntaxError) || !trimmed.includes("\n")) {
+      throw error;
+    }
+  }
+
+  const [metadataLine, ...lines] = trimmed.split(/\r?\n/);
+  const metadata = assertMetadata(JSON.parse(metadataLine));
+  return withLogs(
+    metadata,
+    lines.filter((line) => line.trim()).map((line) => JSON.parse(line))
+  );
+};
+
+export const restoreStats = (stats: SerializedStats): ConnectionStats => ({
+  ...stats,
+  lastActivity: stats.lastActivity ? new Date(stats.lastActivity) : null,
+});
@@ -0,0 +1,282 @@
+import type { LogEntry } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// LOG QUERY LANGUAGE
+// ============================================================================
+//
+// A query is a whitespace separated list of terms that must all match:
+//
+//   hello                 free text over message and details
+//   "two words"           quoted free text
+//   /user_\d+/i           regex over message and details
+//   source:database       structured field (source, type, event, table,
+//                         schema, channel, binding, message)
+//   new.room_id:42        any other field is a dotted path into details
+//   -type:error           a leading "-" negates the term
+//   table:/^msg/          structured fields accept regex values too
+
+export const LOG_QUERY_FIELDS = [
+  "source",
+  "type",
+  "event",
+  "table",
+  "schema",
+  "channel",
+  "binding",
+  "message",
+] as const;
+
+type LogQueryField = (typeof LOG_QUERY_FIELDS)[number];
+
+type LogQueryMatcher =
+  | { readonly kind: "text"; readonly value: string }
+  | { readonly kind: "regex"; readonly regex: RegExp };
+
+export interface LogQueryTerm {
+  readonly field: LogQueryField | null;
+  // Set when the field is not a known one and is resolved inside details.
+  readonly path: readonly string[] | null;
+  readonly negate: boolean;
+  readonly matcher: LogQueryMatcher;
+}
+
+export interface LogQuery {
+  readonly terms: readonly LogQueryTerm[];
+  readonly error: string | null;
+}
+
+const EMPTY_QUERY: LogQuery = { terms: [], error: null };
+
+// Whether an unescaped slash closes the regex opened at `start`.
+const hasClosingSlash = (input: string, start: number): boolean => {
+  for (let i = start + 1; i < input.length; i++) {
+    if (input[i] === "\\") i++;
+    else if (input[i] === "/") return true;
+  }
+  return false;
+};
+
+const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inRegex = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === "\\" && inRegex && i + 1 < input.length) {
+      current += char + input[++i];
+      continue;
+    }
+    if (char === '"' && !inRegex) {
+      inQuotes = !inQuotes;
+      current += char;
+      continue;
+    }
+    if (char === "/" && !inQuotes) {
+      // A slash opens a regex only at the start of a value, and only when it
+      // is closed again; `url:http://x` and `path:/a` stay plain text.
+      const previous = current.replace(/^-/, "");
+      if (inRegex) {
+        inRegex = false;
+      } else if (
+        (previous === "" || /^[A-Za-z_][\w.]*:$/.test(previous)) &&
+        hasClosingSlash(input, i)
+      ) {
+        inRegex = true;
+      }
+      current += char;
+      continue;
+    }
+    if (/\s/.test(char) && !inQuotes && !inRegex) {
+      if (current) tokens.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  if (current) tokens.push(current);
+  return tokens;
+};
+
+// Field values that are not a valid `/.../` regex, like `path:/a/b`, are
+// matched as text; a bare term that is not throws, reported by parseLogQuery.
+const parseMatcher = (raw: string, isFieldValue: boolean): LogQueryMatcher => {
+  const regexMatch = raw.match(/^\/(.*)\/([a-z]*)$/);
+  if (regexMatch) {
+    // Stateful flags would make repeated test() calls skip matches, and
+    // patterns without explicit flags default to case-insensitive.
+    const flags = regexMatch[2].replace(/[gy]/g, "") || "i";
+    try {
+      return { kind: "regex", regex: new RegExp(regexMatch[1], flags) };
+    } catch (error) {
+      if (!isFieldValue) throw error;
+    }
+  }
+
+  const unquoted =
+    raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')
+      ? raw.slice(1, -1)
+      : raw;
+  return { kind: "text", value: unquoted.toLowerCase() };
+};
+
+export const parseLogQuery = (input: string): LogQuery => {
+  if (!input.trim()) return EMPTY_QUERY;
+
+  const terms: LogQueryTerm[] = [];
+  const errors: string[] = [];
+
+  for (const token of tokenize(input.trim())) {
+    const negate = token.length > 1 && token.startsWith("-");
+    const body = negate ? token.slice(1) : token;
+
+    // `field:value`, unless the colon sits inside a quoted or regex value.
+    const fieldMatch = body.match(/^([A-Za-z_][\w.]*):(.+)$/);
+    let field: LogQueryField | null = null;
+    let path: string[] | null = null;
+    let rawValue = body;
+
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      rawValue = fieldMatch[2];
+      if ((LOG_QUERY_FIELDS as readonly string[]).includes(name)) {
+        field = name as LogQueryField;
+      } else {
+        path = fieldMatch[1].split(".");
+      }
+    }
+
+    try {
+      terms.push({
+        field,
+        path,
+        negate,
+        matcher: parseMatcher(rawValue, fieldMatch !== null),
+      });
+    } catch (error) {
+      errors.push(
+        `Invalid regex ${rawValue}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  return { terms, error: errors.length > 0 ? errors.join("; ") : null };
+};
+
+const stringifyDetails = (details: LogEntry["details"]): string => {
+  if (!details) return "";
+  try {
+    return JSON.stringify(details);
+  } catch {
+    return "";
+  }
+};
+
+const resolvePath = (
+  details: LogEntry["details"],
+  path: readonly string[]
+): unknown => {
+  let value: unknown = details;
+  for (const key of path) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+};
+
+const toSearchable = (value: unknown): string | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null) return "null";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const getFieldValue = (
+  log: LogEntry,
+  field: LogQueryField
+): string | undefined => {
+  switch (field) {
+    case "source":
+      return log.source;
+    case "type":
+      return log.type;
+    case "event":
+      return log.event;
+    case "channel":
+      return log.channelName;
+    case "binding":
+      return log.binding;
+    case "message":
+      return log.message;
+    case "table":
+    case "schema":
+      return toSearchable(log.details?.[field]);
+  }
+};
+
+// Structured values match exactly (case-insensitive), except `message` which
+// behaves like free text.
+const matchesValue = (
+  value: string | undefined,
+  matcher: LogQueryMatcher,
+  partial: boolean
+): boolean => {
+  if (value === undefined) return false;
+  if (matcher.kind === "regex") return matcher.regex.test(value);
+
+  const normalized = value.toLowerCase();
+  return partial
+    ? normalized.includes(matcher.value)
+    : normalized === matcher.value;
+};
+
+const matchesTerm = (log: LogEntry, term: LogQueryTerm): boolean => {
+  if (term.path) {
+    return matchesValue(
+      toSearchable(resolvePath(log.details, term.path)),
+      term.matcher,
+      false
+    );
+  }
+
+  if (term.field) {
+    return matchesValue(
+      getFieldValue(log, term.field),
+      term.matcher,
+      term.field === "message"
+    );
+  }
+
+  return (
+    matchesValue(log.message, term.matcher, true) ||
+    matchesValue(stringifyDetails(log.details), term.matcher, true)
+  );
+};
+
+export const matchesLogQuery = (log: LogEntry, query: LogQuery): boolean =>
+  query.terms.every((term) => matchesTerm(log, term) !== term.negate);
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Positive free-text terms are highlighted inside rendered log messages and
+// details; field terms are not, since they do not match raw substrings. Each
+// term gets its own pattern so it keeps its flags, e.g. a case-sensitive
+// `/Foo/`.
+export const getLogQueryHighlights = (query: LogQuery): readonly RegExp[] =>
+  query.terms
+    .filter((term) => !term.negate && term.field === null && !term.path)
+    .flatMap((term) => {
+      const { matcher } = term;
+      const source =
+        matcher.kind === "regex"
+          ? matcher.regex.source
+          : escapeRegExp(matcher.value);
+      const flags = matcher.kind === "regex" ? matcher.regex.flags : "i";
+      return source ? [new RegExp(source, `${flags}g`)] : [];
+    });
@@ -0,0 +1,215 @@
+import type {
+  ConnectionStats,
+  LogEntry,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import { toJsonLogs } from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-export";
+
+// ============================================================================
+// LOG STORE
+// ============================================================================
+
+const DB_NAME = "supabase-realtime-devtools";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const LOGS = "logs";
+
+export const MAX_SESSION_LIMIT = 100;
+
+// One page load's worth of persisted logs.
+export interface StoredSession {
+  readonly id: string;
+  readonly name: string;
+  // Epoch milliseconds.
+  readonly startedAt: number;
+  readonly updatedAt: number;
+  readonly logCount: number;
+  // Channels that logged something, in order of their first entry.
+  readonly channels: readonly string[];
+}
+
+export interface LogStore {
+  startSession(): Promise<StoredSession>;
+  // Oldest first.
+  appendLogs(sessionId: string, logs: readonly LogEntry[]): Promise<void>;
+  // Newest first.
+  listSessions(): Promise<StoredSession[]>;
+  // Newest first, like the live logs.
+  loadSession(sessionId: string): Promise<LogEntry[]>;
+  renameSession(sessionId: string, name: string): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+  // Deletes all but the newest `limit` sessions; resolves to how many went.
+  pruneSessions(limit: number): Promise<number>;
+  close(): void;
+}
+
+interface StoredLog {
+  readonly sessionId: string;
+  readonly log: LogEntry;
+}
+
+export const isLogStoreSupported = (): boolean =>
+  typeof indexedDB !== "undefined";
+
+export const clampSessionLimit = (limit: number): number =>
+  Math.max(1, Math.min(MAX_SESSION_LIMIT, Math.floor(limit) || 1));
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const whenDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+
+// Logs are keyed by [sessionId, id], so a session's logs are one key range,
+// in the order they were logged.
+const sessionRange = (sessionId: string): IDBKeyRange =>
+  IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity]);
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SESSIONS)) {
+      db.createObjectStore(SESSIONS, { keyPath: "id" });
+    }
+    if (!db.objectStoreNames.contains(LOGS)) {
+      db.createObjectStore(LOGS, { keyPath: ["sessionId", "log.id"] });
+    }
+  };
+  return toPromise(request);
+};
+
+export const openLogStore = async (): Promise<LogStore> => {
+  const db = await openDatabase();
+
+  const listSessions = async (): Promise<StoredSession[]> => {
+    const sessions = await toPromise<StoredSession[]>(
+      db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+    );
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+  };
+
+  const deleteSession = async (sessionId: string): Promise<void> => {
+    const transaction = db.transaction([SESSIONS, LOGS], "readwrite");
+    transaction.objectStore(SESSIONS).delete(sessionId);
+    transaction.objectStore(LOGS).delete(sessionRange(sessionId));
+    await whenDone(transaction);
+  };
+
+  const updateSession = async (
+    sessionId: string,
+    update: (session: StoredSession) => StoredSession,
+    write?: (transaction: IDBTransaction) => void
+  ): Promise<void> => {
+    const transaction = db.transaction([SESSIONS, LOGS], "readwrite");
+    const sessions = transaction.objectStore(SESSIONS);
+    write?.(transaction);
+    const session = await toPromise<StoredSession | undefined>(
+      sessions.get(sessionId)
+    );
+    // Deleted from another tab or by retention; drop the write with it.
+    if (!session) {
+      transaction.abort();
+      return;
+    }
+    sessions.put(update(session));
+    await whenDone(transaction);
+  };
+
+  return {
+    startSession: async () => {
+      const startedAt = Date.now();
+      const session: StoredSession = {
+        id: `${startedAt.toString(36)}-${Math.random()
+          .toString(36)
+          .slice(2, 7)}`,
+        name: `Session ${new Date(startedAt).toLocaleString()}`,
+        startedAt,
+        updatedAt: startedAt,
+        logCount: 0,
+        channels: [],
+      };
+      const transaction = db.transaction(SESSIONS, "readwrite");
+      transaction.objectStore(SESSIONS).add(session);
+      await whenDone(transaction);
+      return session;
+    },
+
+    appendLogs: async (sessionId, logs) => {
+      if (logs.length === 0) return;
+
+      // Converted before the transaction opens, so a failure writes nothing.
+      const stored = toJsonLogs(logs).map(
+        (log): StoredLog => ({ sessionId, log })
+      );
+      await updateSession(
+        sessionId,
+        (session) => ({
+          ...session,
+          updatedAt: Date.now(),
+          logCount: session.logCount + logs.length,
+          channels: Array.from(
+            new Set([
+              ...session.channels,
+              ...logs.flatMap((log) =>
+                log.channelName ? [log.channelName] : []
+              ),
+            ])
+          ),
+        }),
+        (transaction) => {
+          const store = transaction.objectStore(LOGS);
+          stored.forEach((entry) => store.put(entry));
+        }
+      );
+    },
+
+    listSessions,
+
+    loadSession: async (sessionId) => {
+      const stored = await toPromise<StoredLog[]>(
+        db.transaction(LOGS).objectStore(LOGS).getAll(sessionRange(sessionId))
+      );
+      return stored.map(({ log }) => log).reverse();
+    },
+
+    renameSession: (sessionId, name) =>
+      updateSession(sessionId, (session) => ({ ...session, name })),
+
+    deleteSession,
+
+    pruneSessions: async (limit) => {
+      const expired = (await listSessions()).slice(clampSessionLimit(limit));
+      await Promise.all(expired.map((session) => deleteSession(session.id)));
+      return expired.length;
+    },
+
+    close: () => db.close(),
+  };
+};
+
+// Totals for a reopened session, counted the way the live stats are.
+export const getSessionStats = (logs: readonly LogEntry[]): ConnectionStats => {
+  const messageTypes = { broadcast: 0, database: 0, presence: 0, system: 0 };
+  logs.forEach((log) => {
+    if (log.source in messageTypes) {
+      messageTypes[log.source as keyof typeof messageTypes] += 1;
+    }
+  });
+  const newest = logs[0];
+
+  return {
+    isConnected: false,
+    totalMessages: logs.length,
+    lastActivity: newest ? new Date(newest.receivedAt) : null,
+    uptime: 0,
+    messageTypes,
+  };
+};
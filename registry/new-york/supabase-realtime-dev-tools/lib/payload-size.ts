@@ -0,0 +1,133 @@
+import type {
+  LogEntry,
+  PayloadOffender,
+  PayloadSizeState,
+  PayloadSizeStats,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// PAYLOAD SIZES
+// ============================================================================
+
+// Realtime's default broadcast payload limit on the free plan.
+export const DEFAULT_PAYLOAD_SIZE_LIMIT = 256 * 1024;
+
+// Payloads at or above this share of the limit are flagged.
+export const PAYLOAD_WARN_RATIO = 0.8;
+
+export const MAX_PAYLOAD_OFFENDERS = 10;
+
+export const EMPTY_PAYLOAD_SIZES: PayloadSizeState = {
+  byEvent: {},
+  byTable: {},
+  largest: [],
+};
+
+// Sources whose entries carry a message that crossed the socket.
+const MEASURED_SOURCES: readonly LogEntry["source"][] = [
+  "broadcast",
+  "database",
+  "presence",
+  "self",
+];
+
+// Only broadcast and postgres_changes payloads are subject to the limit.
+const LIMITED_SOURCES: readonly LogEntry["source"][] = [
+  "broadcast",
+  "database",
+  "self",
+];
+
+const encoder = typeof TextEncoder !== "undefined" ? new TextEncoder() : null;
+
+// UTF-8 byte length of the JSON form, or undefined for entries that are not
+// messages or cannot be serialized.
+export const measurePayload = (
+  source: LogEntry["source"],
+  payload: unknown
+): number | undefined => {
+  if (!MEASURED_SOURCES.includes(source) || payload === undefined) {
+    return undefined;
+  }
+  try {
+    const json = JSON.stringify(payload);
+    return encoder ? encoder.encode(json).length : json.length;
+  } catch {
+    return undefined;
+  }
+};
+
+export const isNearPayloadLimit = (
+  source: LogEntry["source"],
+  size: number | undefined,
+  limit: number
+): size is number =>
+  size !== undefined &&
+  limit > 0 &&
+  LIMITED_SOURCES.includes(source) &&
+  size >= limit * PAYLOAD_WARN_RATIO;
+
+export const getPayloadTable = (
+  entry: Pick<LogEntry, "source" | "details">
+): string | null => {
+  if (entry.source !== "database" || !entry.details) return null;
+  const { schema, table } = entry.details;
+  if (typeof table !== "string" || !table) return null;
+  return typeof schema === "string" && schema ? `${schema}.${table}` : table;
+};
+
+const addToStats = (
+  stats: PayloadSizeStats | undefined,
+  size: number
+): PayloadSizeStats => ({
+  count: (stats?.count ?? 0) + 1,
+  totalBytes: (stats?.totalBytes ?? 0) + size,
+  maxBytes: Math.max(stats?.maxBytes ?? 0, size),
+});
+
+// Oldest first. The maps are copied once per call.
+export const addPayloadSizes = (
+  sizes: PayloadSizeState,
+  entries: readonly LogEntry[]
+): PayloadSizeState => {
+  const measured = entries.filter((entry) => entry.size !== undefined);
+  if (measured.length === 0) return sizes;
+
+  const byEvent = { ...sizes.byEvent };
+  const byTable = { ...sizes.byTable };
+  const isFull = sizes.largest.length >= MAX_PAYLOAD_OFFENDERS;
+  const smallest = sizes.largest[sizes.largest.length - 1];
+  const offenders: PayloadOffender[] = [];
+
+  measured.forEach((entry) => {
+    const size = entry.size as number;
+    const event = entry.event ?? "unknown";
+    const table = getPayloadTable(entry);
+
+    byEvent[event] = addToStats(byEvent[event], size);
+    if (table) byTable[table] = addToStats(byTable[table], size);
+
+    if (!isFull || size > smallest.size) {
+      offenders.push({
+        logId: entry.id,
+        size,
+        source: entry.source,
+        event: entry.event ?? null,
+        table,
+        channelName: entry.channelName ?? null,
+        receivedAt: entry.receivedAt,
+      });
+    }
+  });
+
+  return {
+    byEvent,
+    byTable,
+    largest:
+      offenders.length > 0
+        ? [...sizes.largest, ...offenders]
+            .sort((a, b) => b.size - a.size)
+            .slice(0, MAX_PAYLOAD_OFFENDERS)
+        : sizes.largest,
+  };
+};
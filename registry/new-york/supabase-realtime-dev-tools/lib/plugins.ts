@@ -0,0 +1,78 @@
+import type { ComponentType } from "react";
+import type {
+  DevToolsConfig,
+  DevToolsState,
+  LogEntry,
+  LogTransformer,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import type { RealtimeInspector } from "@/registry/new-york/supabase-realtime-dev-tools/lib/realtime-inspector";
+import { getPayloadTable } from "@/registry/new-york/supabase-realtime-dev-tools/lib/payload-size";
+
+// ============================================================================
+// PLUGINS
+// ============================================================================
+
+export interface DevToolsPluginTabProps {
+  // The live state, also while an export is loaded.
+  readonly state: DevToolsState;
+  readonly config: DevToolsConfig;
+  readonly inspector: RealtimeInspector;
+}
+
+export interface DevToolsPluginTab {
+  // Unique across all plugins.
+  readonly id: string;
+  readonly label: string;
+  readonly icon?: ComponentType<{ className?: string }>;
+  readonly component: ComponentType<DevToolsPluginTabProps>;
+}
+
+export interface LogRendererProps {
+  readonly log: LogEntry;
+}
+
+// Replaces the JSON details of the entries it matches. An entry matches when
+// every criterion given does; a renderer without any matches every entry.
+export interface LogRenderer {
+  readonly event?: string;
+  // "schema.table", or the bare table when the payload has no schema.
+  readonly table?: string;
+  readonly match?: (log: LogEntry) => boolean;
+  readonly component: ComponentType<LogRendererProps>;
+}
+
+export interface DevToolsPlugin {
+  readonly name: string;
+  readonly tabs?: readonly DevToolsPluginTab[];
+  readonly renderers?: readonly LogRenderer[];
+  // Runs on every new entry, after the transforms of earlier plugins.
+  readonly transform?: LogTransformer;
+}
+
+export const getPluginTabs = (
+  plugins: readonly DevToolsPlugin[]
+): DevToolsPluginTab[] => plugins.flatMap((plugin) => plugin.tabs ?? []);
+
+export const getPluginTransformers = (
+  plugins: readonly DevToolsPlugin[]
+): LogTransformer[] =>
+  plugins.flatMap((plugin) => (plugin.transform ? [plugin.transform] : []));
+
+const matchesRenderer = (renderer: LogRenderer, log: LogEntry): boolean =>
+  (renderer.event === undefined || log.event === renderer.event) &&
+  (renderer.table === undefined || getPayloadTable(log) === renderer.table) &&
+  (!renderer.match || renderer.match(log));
+
+// The first matching renderer, in plugin order.
+export const findLogRenderer = (
+  plugins: readonly DevToolsPlugin[],
+  log: LogEntry
+): LogRenderer | null => {
+  for (const plugin of plugins) {
+    const renderer = plugin.renderers?.find((item) =>
+      matchesRenderer(item, log)
+    );
+    if (renderer) return renderer;
+  }
+  return null;
+};
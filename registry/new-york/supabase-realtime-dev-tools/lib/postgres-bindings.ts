@@ -0,0 +1,91 @@
+import type { PostgresBinding } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// POSTGRES_CHANGES BINDINGS
+// ============================================================================
+
+export const POSTGRES_EVENTS: readonly PostgresBinding["event"][] = [
+  "*",
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+];
+
+// Operators accepted by Realtime row filters, e.g. `room_id=eq.42` or
+// `id=in.(1,2,3)`.
+const FILTER_OPERATORS = ["eq", "neq", "lt", "lte", "gt", "gte", "in"];
+
+export const DEFAULT_POSTGRES_BINDINGS: readonly PostgresBinding[] = [
+  {
+    id: "all-changes",
+    label: "all-changes",
+    schema: "*",
+    table: "*",
+    event: "*",
+    filter: "",
+  },
+];
+
+export const createPostgresBinding = (): PostgresBinding => ({
+  id: Math.random().toString(36).slice(2, 9),
+  label: "",
+  schema: "public",
+  table: "",
+  event: "*",
+  filter: "",
+});
+
+export const validatePostgresFilter = (filter: string): string | null => {
+  const trimmed = filter.trim();
+  if (!trimmed) return null;
+
+  const match = trimmed.match(/^([A-Za-z_][\w]*)=([a-z]+)\.(.+)$/);
+  if (!match) return "Expected column=operator.value, e.g. room_id=eq.42";
+
+  const [, , operator, value] = match;
+  if (!FILTER_OPERATORS.includes(operator)) {
+    return `Unknown operator "${operator}" (use ${FILTER_OPERATORS.join(
+      ", "
+    )})`;
+  }
+  if (operator === "in" && !/^\(.+\)$/.test(value)) {
+    return "The in operator takes a list, e.g. id=in.(1,2,3)";
+  }
+  return null;
+};
+
+export const validatePostgresBinding = (
+  binding: PostgresBinding
+): string | null => {
+  if (!binding.schema.trim()) return "Schema is required";
+  // Realtime only applies row filters to a single table.
+  if (binding.filter.trim() && !binding.table.trim()) {
+    return "A filter needs a table";
+  }
+  return validatePostgresFilter(binding.filter);
+};
+
+export const getPostgresBindingLabel = (binding: PostgresBinding): string =>
+  binding.label.trim() ||
+  [
+    `${binding.schema || "*"}.${binding.table || "*"}`,
+    binding.event !== "*" ? binding.event : null,
+    binding.filter.trim() || null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+// Builds the options object passed to `channel.on("postgres_changes", ...)`.
+export const toPostgresChangesFilter = (
+  binding: PostgresBinding
+): { event: string; schema: string; table?: string; filter?: string } => {
+  const table = binding.table.trim();
+  const filter = binding.filter.trim();
+
+  return {
+    event: binding.event,
+    schema: binding.schema.trim(),
+    ...(table ? { table } : {}),
+    ...(filter ? { filter } : {}),
+  };
+};
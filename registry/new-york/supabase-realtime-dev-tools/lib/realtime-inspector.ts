@@ -0,0 +1,1965 @@
+import type {
+  AuthChangeEvent,
+  AuthInfo,
+  ChannelMonitorState,
+  ChannelReconnect,
+  ChannelStatus,
+  ConnectionStats,
+  DevToolsConfig,
+  DevToolsState,
+  HeartbeatSample,
+  LatencySample,
+  LogEntry,
+  LogTransformer,
+  OfflineCapture,
+  PresenceMeta,
+  RealtimeChannel,
+  ReconnectCycle,
+  RecordedEvent,
+  SocketEvent,
+  SocketState,
+  SupabaseClient,
+  SupabaseSession,
+  WireFrame,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import { toRecordedEvent } from "@/registry/new-york/supabase-realtime-dev-tools/lib/session-replay";
+import {
+  DEFAULT_POSTGRES_BINDINGS,
+  getPostgresBindingLabel,
+  toPostgresChangesFilter,
+  validatePostgresBinding,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/postgres-bindings";
+import {
+  LATENCY_PROBE_EVENT,
+  MAX_LATENCY_SAMPLES,
+  createLatencyProbe,
+  type LatencyProbe,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/latency-probe";
+import {
+  MAX_RECONNECT_CYCLES,
+  getReconnectDelay,
+  type PendingReconnect,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/reconnect";
+import {
+  describeChannel,
+  getChannelName,
+  getChannelTopic,
+  tapChannel,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/channel-tap";
+import {
+  MAX_WIRE_FRAMES,
+  attachWireTap,
+  formatBytes,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/wire-tap";
+import {
+  MAX_HEARTBEATS,
+  MAX_SOCKET_EVENTS,
+  attachSocketMonitor,
+  describeCloseCode,
+  pruneStateChanges,
+  type SocketMonitor,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/socket-health";
+import { isIdentityOnlyOld } from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-diff";
+import {
+  EMPTY_ROW_HISTORY,
+  addRowEvents,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-history";
+import { addToThroughput } from "@/registry/new-york/supabase-realtime-dev-tools/lib/throughput";
+import {
+  DEFAULT_PAYLOAD_SIZE_LIMIT,
+  EMPTY_PAYLOAD_SIZES,
+  addPayloadSizes,
+  getPayloadTable,
+  isNearPayloadLimit,
+  measurePayload,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/payload-size";
+import {
+  clampLogCapacity,
+  createLogBuffer,
+  getEvictedLogs,
+  pushLogs,
+  resizeLogBuffer,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-buffer";
+import {
+  EMPTY_DROPPED_EVENTS,
+  addDroppedEvents,
+  selectBatch,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/backpressure";
+import {
+  DEFAULT_REDACTION_RULES,
+  createRedactor,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/redaction";
+
+// ============================================================================
+// CONFIG & INITIAL STATE
+// ============================================================================
+
+export const DEFAULT_CONFIG: DevToolsConfig = {
+  channels: ["devtools-monitor"],
+  enableBroadcast: true,
+  enableDatabase: true,
+  postgresBindings: DEFAULT_POSTGRES_BINDINGS,
+  enablePresence: true,
+  enableSelfTestBroadcast: false,
+  showSystemLogs: true,
+  maxLogs: 200,
+  autoScroll: true,
+  latencyProbeInterval: 2000,
+  throughputWindow: 60000,
+  payloadSizeLimit: DEFAULT_PAYLOAD_SIZE_LIMIT,
+  redactionRules: DEFAULT_REDACTION_RULES,
+  batchMode: "frame",
+  batchInterval: 100,
+  backpressure: "drop-oldest",
+  maxEventsPerBatch: 500,
+  droppedEventNames: [],
+  persistLogs: false,
+  sessionLimit: 10,
+  shareAcrossTabs: false,
+  autoReconnect: true,
+  reconnectMaxAttempts: 5,
+  reconnectBaseDelay: 1000,
+};
+
+export const createInitialState = (
+  maxLogs: number = DEFAULT_CONFIG.maxLogs
+): DevToolsState => ({
+  logs: createLogBuffer(clampLogCapacity(maxLogs)),
+  stats: {
+    isConnected: false,
+    totalMessages: 0,
+    lastActivity: null,
+    uptime: 0,
+    messageTypes: { broadcast: 0, database: 0, presence: 0, system: 0 },
+  },
+  channels: {},
+  presence: {},
+  latency: { running: false, samples: [] },
+  reconnectCycles: [],
+  wire: { capturing: false, frames: [] },
+  socket: {
+    supported: false,
+    heartbeatIntervalMs: null,
+    state: null,
+    stateChanges: [],
+    pendingHeartbeatAt: null,
+    heartbeats: [],
+    missedHeartbeats: 0,
+    events: [],
+  },
+  throughput: [],
+  payloadSizes: EMPTY_PAYLOAD_SIZES,
+  rowHistory: EMPTY_ROW_HISTORY,
+  dropped: EMPTY_DROPPED_EVENTS,
+  expandedLogs: new Set(),
+  isMonitoring: false,
+  isAuthenticated: false,
+  authError: null,
+  authInfo: {
+    lastEvent: null,
+    lastEventAt: null,
+    accessTokenUpdatedAt: null,
+    accessTokenExpiresAt: null,
+  },
+  offlineCapture: null,
+  recording: null,
+});
+
+// Built once: toLocaleTimeString sets up a new formatter on every call, which
+// dominates the cost of logging under load.
+const logTimeFormat = new Intl.DateTimeFormat("en-US", {
+  hour12: false,
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  fractionalSecondDigits: 3,
+});
+
+const formatLogTimestamp = (receivedAt: number): string =>
+  logTimeFormat.format(receivedAt);
+
+// ============================================================================
+// ACTIONS & REDUCER - PERFORMANCE OPTIMIZED
+// ============================================================================
+
+export type DevToolsAction =
+  | {
+      type: "ADD_LOG";
+      payload: Omit<LogEntry, "id" | "timestamp">;
+    }
+  | {
+      type: "ADD_LOGS";
+      payload: {
+        entries: readonly Omit<LogEntry, "id" | "timestamp">[];
+        // Counts by event name of the entries shed on the way.
+        dropped: Readonly<Record<string, number>>;
+      };
+    }
+  // Entries shared by another tab. They join the list as they arrive and
+  // count toward none of this tab's stats.
+  | { type: "ADD_TAB_LOGS"; payload: readonly LogEntry[] }
+  | { type: "CLEAR_LOGS" }
+  | { type: "SET_LOG_CAPACITY"; payload: number }
+  | { type: "TOGGLE_LOG_DETAILS"; payload: number }
+  | {
+      type: "SET_CHANNEL_STATUS";
+      payload: { channelName: string; status: ChannelStatus };
+    }
+  | { type: "REMOVE_CHANNEL"; payload: string }
+  | {
+      type: "SET_CHANNEL_RECONNECT";
+      payload: { channelName: string; reconnect: ChannelReconnect | null };
+    }
+  | { type: "ADD_RECONNECT_CYCLE"; payload: ReconnectCycle }
+  | {
+      type: "SET_PRESENCE_STATE";
+      payload: {
+        channelName: string;
+        state: Record<string, PresenceMeta[]>;
+        at: number;
+      };
+    }
+  | {
+      type: "SET_TRACKED_PRESENCE";
+      payload: { channelName: string; tracked: Record<string, unknown> | null };
+    }
+  | { type: "LOAD_CAPTURE"; payload: OfflineCapture }
+  | { type: "START_RECORDING"; payload: { startedAt: number } }
+  | { type: "STOP_RECORDING" }
+  | { type: "CLOSE_CAPTURE" }
+  | {
+      type: "SET_AUTH_STATE";
+      payload: { isAuthenticated: boolean; authError: string | null };
+    }
+  | { type: "SET_AUTH_INFO"; payload: Partial<AuthInfo> }
+  | { type: "UPDATE_STATS"; payload: Partial<ConnectionStats> }
+  | { type: "SET_LATENCY_PROBE_RUNNING"; payload: boolean }
+  | { type: "ADD_LATENCY_SAMPLE"; payload: LatencySample }
+  | { type: "CLEAR_LATENCY_SAMPLES" }
+  | { type: "SET_WIRE_CAPTURING"; payload: boolean }
+  | { type: "ADD_WIRE_FRAME"; payload: WireFrame }
+  | { type: "CLEAR_WIRE_FRAMES" }
+  | {
+      type: "SET_SOCKET_MONITOR";
+      payload: { supported: boolean; heartbeatIntervalMs: number | null };
+    }
+  | { type: "SET_SOCKET_STATE"; payload: { state: SocketState; at: number } }
+  | { type: "SET_HEARTBEAT_PENDING"; payload: number }
+  | { type: "ADD_HEARTBEAT"; payload: HeartbeatSample }
+  | { type: "ADD_SOCKET_EVENT"; payload: SocketEvent };
+
+let logIdCounter = 0;
+
+// Monitoring and connection flags are derived from the per-channel map so
+// they can never drift out of sync with the individual subscriptions.
+const withChannels = (
+  state: DevToolsState,
+  channels: Record<string, ChannelMonitorState>
+): DevToolsState => {
+  const isMonitoring = Object.values(channels).some(
+    (channel) => channel.status === "subscribed"
+  );
+
+  return {
+    ...state,
+    channels,
+    isMonitoring,
+    stats: { ...state.stats, isConnected: isMonitoring },
+  };
+};
+
+// Everything a batch changes besides the log buffer. Each collection is
+// copied once per batch, however many entries it holds.
+const countLogs = (
+  state: DevToolsState,
+  newLogs: readonly LogEntry[]
+): DevToolsState => {
+  const messageTypes = { ...state.stats.messageTypes };
+  let channels: Record<string, ChannelMonitorState> = state.channels;
+
+  newLogs.forEach((log) => {
+    if (log.source in messageTypes) {
+      messageTypes[log.source as keyof typeof messageTypes] += 1;
+    }
+
+    const channel = log.channelName ? channels[log.channelName] : undefined;
+    if (!channel) return;
+    if (channels === state.channels) channels = { ...state.channels };
+    channels[channel.name] = {
+      ...channel,
+      messageCount: channel.messageCount + 1,
+      lastActivity: new Date(log.receivedAt),
+    };
+  });
+
+  // The charts show live traffic, and replayed entries are already part of a
+  // recording; both keep to the live ones.
+  const live = newLogs.filter((log) => !log.replayed);
+  const recording = state.recording;
+  live.forEach((log) => recording?.events.push(toRecordedEvent(log)));
+
+  return {
+    ...state,
+    stats: {
+      ...state.stats,
+      totalMessages: state.stats.totalMessages + newLogs.length,
+      lastActivity: new Date(newLogs[newLogs.length - 1].receivedAt),
+      messageTypes,
+    },
+    channels,
+    payloadSizes: addPayloadSizes(state.payloadSizes, newLogs),
+    rowHistory: addRowEvents(state.rowHistory, newLogs),
+    throughput: addToThroughput(state.throughput, live),
+    recording:
+      recording && live.length > 0
+        ? { ...recording, eventCount: recording.eventCount + live.length }
+        : recording,
+  };
+};
+
+// The buffer takes the whole batch in one push, so it is copied once.
+const addLogs = (
+  state: DevToolsState,
+  payloads: readonly Omit<LogEntry, "id" | "timestamp">[]
+): DevToolsState => {
+  if (payloads.length === 0) return state;
+
+  const newLogs = payloads.map((payload): LogEntry => {
+    logIdCounter += 1;
+    return {
+      ...payload,
+      id: logIdCounter,
+      timestamp: formatLogTimestamp(payload.receivedAt),
+    };
+  });
+
+  return pushNewLogs(countLogs(state, newLogs), newLogs);
+};
+
+const pushNewLogs = (
+  state: DevToolsState,
+  newLogs: readonly LogEntry[]
+): DevToolsState => {
+  const evicted = getEvictedLogs(state.logs, newLogs.length).filter((log) =>
+    state.expandedLogs.has(log.id)
+  );
+  const expandedLogs =
+    evicted.length > 0
+      ? new Set(
+          Array.from(state.expandedLogs).filter(
+            (id) => !evicted.some((log) => log.id === id)
+          )
+        )
+      : state.expandedLogs;
+
+  return {
+    ...state,
+    logs: pushLogs(state.logs, newLogs),
+    expandedLogs,
+  };
+};
+
+export const devToolsReducer = (
+  state: DevToolsState,
+  action: DevToolsAction
+): DevToolsState => {
+  switch (action.type) {
+    case "ADD_LOG":
+      return addLogs(state, [action.payload]);
+
+    case "ADD_LOGS": {
+      const { entries, dropped } = action.payload;
+      const next = addLogs(state, entries);
+      const nextDropped = addDroppedEvents(next.dropped, dropped);
+      return nextDropped === next.dropped
+        ? next
+        : { ...next, dropped: nextDropped };
+    }
+
+    case "ADD_TAB_LOGS":
+      if (action.payload.length === 0) return state;
+      return pushNewLogs(
+        state,
+        action.payload.map((log) => {
+          logIdCounter += 1;
+          return { ...log, id: logIdCounter };
+        })
+      );
+
+    case "CLEAR_LOGS":
+      return {
+        ...state,
+        logs: createLogBuffer(state.logs.capacity),
+        expandedLogs: new Set(),
+        channels: Object.fromEntries(
+          Object.entries(state.channels).map(([name, channel]) => [
+            name,
+            { ...channel, messageCount: 0, lastActivity: null },
+          ])
+        ),
+        stats: {
+          ...state.stats,
+          totalMessages: 0,
+          messageTypes: { broadcast: 0, database: 0, presence: 0, system: 0 },
+        },
+        payloadSizes: EMPTY_PAYLOAD_SIZES,
+        rowHistory: EMPTY_ROW_HISTORY,
+        dropped: EMPTY_DROPPED_EVENTS,
+      };
+
+    case "SET_LOG_CAPACITY": {
+      const logs = resizeLogBuffer(
+        state.logs,
+        clampLogCapacity(action.payload)
+      );
+      return logs === state.logs ? state : { ...state, logs };
+    }
+
+    case "TOGGLE_LOG_DETAILS":
+      const newExpanded = new Set(state.expandedLogs);
+      if (newExpanded.has(action.payload)) {
+        newExpanded.delete(action.payload);
+      } else {
+        newExpanded.add(action.payload);
+      }
+      return { ...state, expandedLogs: newExpanded };
+
+    case "SET_CHANNEL_STATUS": {
+      const { channelName, status } = action.payload;
+      const previous = state.channels[channelName];
+
+      const next = withChannels(state, {
+        ...state.channels,
+        [channelName]: {
+          name: channelName,
+          messageCount: previous?.messageCount ?? 0,
+          lastActivity: previous?.lastActivity ?? null,
+          status,
+          subscribedAt:
+            status === "subscribed"
+              ? previous?.subscribedAt ?? new Date()
+              : null,
+          reconnect: previous?.reconnect ?? null,
+          reconnectCount: previous?.reconnectCount ?? 0,
+        },
+      });
+      if (status !== "idle" || !state.presence[channelName]) return next;
+
+      // A stopped channel has left presence, so its snapshot is stale.
+      const presence = { ...next.presence };
+      delete presence[channelName];
+      return { ...next, presence };
+    }
+
+    case "REMOVE_CHANNEL": {
+      const channels = { ...state.channels };
+      const presence = { ...state.presence };
+      delete channels[action.payload];
+      delete presence[action.payload];
+      return withChannels({ ...state, presence }, channels);
+    }
+
+    case "SET_CHANNEL_RECONNECT": {
+      const { channelName, reconnect } = action.payload;
+      const channel = state.channels[channelName];
+      if (!channel) return state;
+
+      return {
+        ...state,
+        channels: {
+          ...state.channels,
+          [channelName]: { ...channel, reconnect },
+        },
+      };
+    }
+
+    case "ADD_RECONNECT_CYCLE": {
+      const cycle = action.payload;
+      const channel = state.channels[cycle.channelName];
+
+      return {
+        ...state,
+        channels: channel
+          ? {
+              ...state.channels,
+              [channel.name]: {
+                ...channel,
+                reconnect: null,
+                reconnectCount: channel.reconnectCount + 1,
+              },
+            }
+          : state.channels,
+        reconnectCycles: [cycle, ...state.reconnectCycles].slice(
+          0,
+          MAX_RECONNECT_CYCLES
+        ),
+      };
+    }
+
+    case "SET_PRESENCE_STATE": {
+      const { channelName, state: presenceState, at } = action.payload;
+      const previous = state.presence[channelName];
+
+      // Keep the first time each presence_ref was seen so join times survive
+      // later syncs; refs that are gone are dropped.
+      const joinedAt: Record<string, number> = {};
+      Object.values(presenceState).forEach((metas) =>
+        metas.forEach((meta) => {
+          joinedAt[meta.presence_ref] =
+            previous?.joinedAt[meta.presence_ref] ?? at;
+        })
+      );
+
+      return {
+        ...state,
+        presence: {
+          ...state.presence,
+          [channelName]: {
+            state: presenceState,
+            joinedAt,
+            updatedAt: at,
+            tracked: previous?.tracked ?? null,
+          },
+        },
+      };
+    }
+
+    case "SET_TRACKED_PRESENCE": {
+      const { channelName, tracked } = action.payload;
+      const previous = state.presence[channelName];
+
+      return {
+        ...state,
+        presence: {
+          ...state.presence,
+          [channelName]: {
+            state: previous?.state ?? {},
+            joinedAt: previous?.joinedAt ?? {},
+            updatedAt: previous?.updatedAt ?? Date.now(),
+            tracked,
+          },
+        },
+      };
+    }
+
+    // Imported ids may repeat or come in any order, so the entries are
+    // numbered like live ones, highest first.
+    case "LOAD_CAPTURE": {
+      const { logs } = action.payload;
+      return {
+        ...state,
+        offlineCapture: {
+          ...action.payload,
+          logs: logs.map((log, index) => ({ ...log, id: logs.length - index })),
+        },
+        expandedLogs: new Set(),
+      };
+    }
+
+    case "START_RECORDING":
+      return {
+        ...state,
+        recording: {
+          startedAt: action.payload.startedAt,
+          events: [],
+          eventCount: 0,
+        },
+      };
+
+    case "STOP_RECORDING":
+      return { ...state, recording: null };
+
+    case "CLOSE_CAPTURE":
+      return { ...state, offlineCapture: null, expandedLogs: new Set() };
+
+    case "SET_AUTH_STATE":
+      return {
+        ...state,
+        isAuthenticated: action.payload.isAuthenticated,
+        authError: action.payload.authError,
+      };
+
+    case "SET_AUTH_INFO":
+      return {
+        ...state,
+        authInfo: { ...state.authInfo, ...action.payload },
+      };
+
+    case "UPDATE_STATS":
+      return {
+        ...state,
+        stats: { ...state.stats, ...action.payload },
+      };
+
+    case "SET_LATENCY_PROBE_RUNNING":
+      return {
+        ...state,
+        latency: { ...state.latency, running: action.payload },
+      };
+
+    case "ADD_LATENCY_SAMPLE":
+      return {
+        ...state,
+        latency: {
+          ...state.latency,
+          samples: [...state.latency.samples, action.payload].slice(
+            -MAX_LATENCY_SAMPLES
+          ),
+        },
+      };
+
+    case "CLEAR_LATENCY_SAMPLES":
+      return { ...state, latency: { ...state.latency, samples: [] } };
+
+    case "SET_WIRE_CAPTURING":
+      return { ...state, wire: { ...state.wire, capturing: action.payload } };
+
+    case "ADD_WIRE_FRAME":
+      return {
+        ...state,
+        wire: {
+          ...state.wire,
+          frames: [action.payload, ...state.wire.frames].slice(
+            0,
+            MAX_WIRE_FRAMES
+          ),
+        },
+      };
+
+    case "CLEAR_WIRE_FRAMES":
+      return { ...state, wire: { ...state.wire, frames: [] } };
+
+    case "SET_SOCKET_MONITOR":
+      return { ...state, socket: { ...state.socket, ...action.payload } };
+
+    case "SET_SOCKET_STATE": {
+      const { state: socketState, at } = action.payload;
+      const changes = state.socket.stateChanges;
+      const previous = changes[changes.length - 1];
+      if (previous?.state === socketState) return state;
+
+      return {
+        ...state,
+        // Open time is banked each time the socket leaves the open state.
+        stats:
+          previous?.state === "open"
+            ? { ...state.stats, uptime: state.stats.uptime + at - previous.at }
+            : state.stats,
+        socket: {
+          ...state.socket,
+          state: socketState,
+          stateChanges: pruneStateChanges(
+            [...changes, { state: socketState, at }],
+            at
+          ),
+        },
+      };
+    }
+
+    case "SET_HEARTBEAT_PENDING":
+      return {
+        ...state,
+        socket: { ...state.socket, pendingHeartbeatAt: action.payload },
+      };
+
+    case "ADD_HEARTBEAT":
+      return {
+        ...state,
+        socket: {
+          ...state.socket,
+          pendingHeartbeatAt: null,
+          heartbeats: [...state.socket.heartbeats, action.payload].slice(
+            -MAX_HEARTBEATS
+          ),
+          missedHeartbeats:
+            state.socket.missedHeartbeats +
+            (action.payload.result === "timeout" ? 1 : 0),
+        },
+      };
+
+    case "ADD_SOCKET_EVENT":
+      return {
+        ...state,
+        socket: {
+          ...state.socket,
+          events: [action.payload, ...state.socket.events].slice(
+            0,
+            MAX_SOCKET_EVENTS
+          ),
+        },
+      };
+
+    default:
+      return state;
+  }
+};
+
+// ============================================================================
+// INSPECTOR
+// ============================================================================
+
+type PendingEntry = Omit<LogEntry, "id" | "timestamp">;
+
+// Longest wait for a batch in frame mode, as frames stop in background tabs.
+const FRAME_FALLBACK_DELAY = 250;
+
+export type LogFn = (
+  type: LogEntry["type"],
+  message: string,
+  source: LogEntry["source"],
+  details?: Record<string, unknown>,
+  event?: string,
+  channelName?: string,
+  binding?: string
+) => void;
+
+export interface RealtimeInspectorOptions {
+  // Merged over DEFAULT_CONFIG.
+  readonly config?: Partial<DevToolsConfig>;
+  // Run in order on every new entry; replayed entries skip them.
+  readonly transformers?: readonly LogTransformer[];
+}
+
+// Framework-agnostic core of the DevTools: owns the state, the monitor
+// channels and every hook into the client. Views subscribe to it and render
+// getState().
+export interface RealtimeInspector {
+  getState(): DevToolsState;
+  // Listeners run after every state change; returns the unsubscribe.
+  subscribe(listener: () => void): () => void;
+  dispatch(action: DevToolsAction): void;
+  getConfig(): DevToolsConfig;
+  setConfig(config: DevToolsConfig): void;
+  setTransformers(transformers: readonly LogTransformer[]): void;
+  // Checks the session and starts watching auth and the socket. stop() tears
+  // down everything start() and the other methods set up; start() can be
+  // called again afterwards.
+  start(): void;
+  stop(): void;
+  log: LogFn;
+  // Feeds a recorded entry back through the pipeline with its original time.
+  replay(event: RecordedEvent): void;
+  clearLogs(): void;
+  // Logs the entries waiting for the next batch right away.
+  flush(): void;
+  startMonitoring(channelName: string): void;
+  stopMonitoring(channelName: string): void;
+  // Starts every configured channel that is neither subscribed nor
+  // reconnecting.
+  startAllMonitoring(): void;
+  stopAllMonitoring(): void;
+  sendBroadcast(
+    channelName: string,
+    event: string,
+    payload: unknown
+  ): Promise<boolean>;
+  // Tracks `tracked` as the inspector on a monitored channel, or untracks
+  // when null.
+  updateTrackedPresence(
+    channelName: string,
+    tracked: Record<string, unknown> | null
+  ): Promise<boolean>;
+  startLatencyProbe(): void;
+  stopLatencyProbe(): void;
+  startWireCapture(): boolean;
+  stopWireCapture(): void;
+  // The app's own channels, without the ones the inspector opened itself.
+  getAppChannels(): RealtimeChannel[];
+  getTappedTopics(): string[];
+  tapAppChannel(topic: string): boolean;
+  untapAppChannel(topic: string, reason?: string): boolean;
+}
+
+export const createRealtimeInspector = (
+  supabase: SupabaseClient | null,
+  options: RealtimeInspectorOptions = {}
+): RealtimeInspector => {
+  let config: DevToolsConfig = { ...DEFAULT_CONFIG, ...options.config };
+  let state = createInitialState(config.maxLogs);
+  let transformers: readonly LogTransformer[] = options.transformers ?? [];
+  let redactor = createRedactor(config.redactionRules);
+  const listeners = new Set<() => void>();
+
+  let running = false;
+  let abortController = new AbortController();
+  let authSubscription: { unsubscribe(): void } | null = null;
+  let socketMonitor: SocketMonitor | null = null;
+  let accessToken: string | null = null;
+  let latencyProbe: LatencyProbe | null = null;
+  let wireTap: (() => void) | null = null;
+  const channelRefs = new Map<string, RealtimeChannel>();
+  // Every channel the inspector opened, to tell them from the app's.
+  const ownChannels = new WeakSet<RealtimeChannel>();
+  // Leaves still in flight by channel name. supabase-js hands back a channel
+  // that is still leaving instead of opening a new one, so starts wait.
+  const leaving = new Map<string, Promise<void>>();
+  const queuedStarts = new Set<string>();
+  const reconnects = new Map<string, PendingReconnect>();
+  const taps = new Map<string, () => void>();
+  // Tables already reported as lacking REPLICA IDENTITY FULL.
+  const identityWarnings = new Set<string>();
+  // Channels stopped by a lost session, resumed once it is back.
+  let resumeChannels: string[] = [];
+
+  const dispatch = (action: DevToolsAction) => {
+    const next = devToolsReducer(state, action);
+    if (next === state) return;
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const isActive = () => !abortController.signal.aborted;
+
+  // A transformer that throws is skipped for that entry.
+  const transform = (entry: RecordedEvent): RecordedEvent | null =>
+    transformers.reduce<RecordedEvent | null>((current, transformer) => {
+      if (!current) return null;
+      try {
+        return transformer(current);
+      } catch (error) {
+        console.warn(
+          "SupabaseDevTools: log transformer failed:",
+          error instanceof Error ? error.message : "Unknown error"
+        );
+        return current;
+      }
+    }, entry);
+
+  // ==========================================================================
+  // BATCHING
+  // ==========================================================================
+
+  let pending: PendingEntry[] = [];
+  let cancelFlush: (() => void) | null = null;
+
+  const discardPending = () => {
+    cancelFlush?.();
+    cancelFlush = null;
+    pending = [];
+  };
+
+  // Backpressure runs first so shed entries cost nothing more. Masks run
+  // last so nothing a transformer adds slips through.
+  const flush = () => {
+    const batch = pending;
+    discardPending();
+    if (batch.length === 0) return;
+
+    const { kept, dropped } = selectBatch(batch, {
+      policy: config.backpressure,
+      maxEventsPerBatch: config.maxEventsPerBatch,
+      droppedEventNames: config.droppedEventNames,
+    });
+    const entries = kept.flatMap((entry): PendingEntry[] => {
+      // Replayed entries went through the transformers when recorded.
+      const transformed = entry.replayed ? entry : transform(entry);
+      if (!transformed) return [];
+      return [redactor ? redactor.redactEntry(transformed) : transformed];
+    });
+    dispatch({ type: "ADD_LOGS", payload: { entries, dropped } });
+  };
+
+  const scheduleFlush = () => {
+    if (cancelFlush) return;
+
+    const useFrames =
+      config.batchMode === "frame" &&
+      typeof requestAnimationFrame === "function";
+    const frameId = useFrames ? requestAnimationFrame(flush) : null;
+    const timeoutId = setTimeout(
+      flush,
+      config.batchMode === "interval"
+        ? config.batchInterval
+        : useFrames
+        ? FRAME_FALLBACK_DELAY
+        : 16
+    );
+    cancelFlush = () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      clearTimeout(timeoutId);
+    };
+  };
+
+  const addEntry = (entry: PendingEntry) => {
+    pending.push(entry);
+    scheduleFlush();
+  };
+
+  const log: LogFn = (
+    type,
+    message,
+    source,
+    details,
+    event,
+    channelName,
+    binding
+  ) => {
+    if (!isActive()) return;
+
+    const receivedAt = Date.now();
+    const size = measurePayload(source, details);
+    addEntry({
+      type,
+      message,
+      source,
+      details,
+      event,
+      channelName,
+      binding,
+      size,
+      receivedAt,
+    });
+
+    const limit = config.payloadSizeLimit;
+    if (isNearPayloadLimit(source, size, limit)) {
+      const table = getPayloadTable({ source, details });
+      addEntry({
+        type: "warning",
+        message: `⚠️ Payload ${formatBytes(size)} is ${Math.round(
+          (size / limit) * 100
+        )}% of the ${formatBytes(limit)} limit`,
+        source: "system",
+        details: { size, limit, source, event, table },
+        event,
+        channelName,
+        receivedAt,
+      });
+    }
+  };
+
+  const replay = (event: RecordedEvent) => {
+    if (!isActive()) return;
+
+    // Recordings made with other rules, or none, are masked again.
+    addEntry({ ...event, replayed: true });
+  };
+
+  // ==========================================================================
+  // AUTH
+  // ==========================================================================
+
+  const noteAccessToken = (session: SupabaseSession | null) => {
+    const token = session?.access_token ?? null;
+    if (token === accessToken) return;
+
+    accessToken = token;
+    dispatch({
+      type: "SET_AUTH_INFO",
+      payload: {
+        accessTokenUpdatedAt: token ? Date.now() : null,
+        accessTokenExpiresAt: session?.expires_at
+          ? session.expires_at * 1000
+          : null,
+      },
+    });
+  };
+
+  // Monitoring stops when the session is lost and picks up again once the
+  // user signs back in.
+  const setAuthState = (isAuthenticated: boolean, authError: string | null) => {
+    dispatch({
+      type: "SET_AUTH_STATE",
+      payload: { isAuthenticated, authError },
+    });
+
+    if (!isAuthenticated) {
+      const active = Object.values(state.channels)
+        .filter((channel) =>
+          ["subscribed", "joining", "reconnecting"].includes(channel.status)
+        )
+        .map((channel) => channel.name);
+      if (active.length > 0) {
+        resumeChannels = active;
+        stopAllMonitoring();
+      }
+      if (state.latency.running) stopLatencyProbe();
+      return;
+    }
+
+    const channelNames = resumeChannels.filter((name) =>
+      config.channels.includes(name)
+    );
+    resumeChannels = [];
+    if (channelNames.length === 0) return;
+
+    log(
+      "info",
+      `🔐 Resuming monitoring of ${channelNames.length} channel${
+        channelNames.length === 1 ? "" : "s"
+      }`,
+      "system",
+      { channels: channelNames }
+    );
+    channelNames.forEach(startMonitoring);
+  };
+
+  const checkAuth = async () => {
+    if (!supabase || !isActive()) return;
+    const signal = abortController.signal;
+
+    try {
+      const {
+        data: { session },
+        error,
+      } = await supabase.auth.getSession();
+
+      if (signal.aborted) return;
+
+      if (error) throw error;
+
+      noteAccessToken(session);
+      const authenticated = !!session;
+      setAuthState(authenticated, authenticated ? null : "No active session");
+
+      if (!authenticated) {
+        log("warning", "🔒 No active Supabase session", "system", {
+          session: null,
+        });
+      }
+    } catch (error: unknown) {
+      if (signal.aborted) return;
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Authentication check failed";
+      setAuthState(false, errorMessage);
+      log("error", `🔴 Auth failed: ${errorMessage}`, "system", { error });
+    }
+  };
+
+  const handleAuthChange = (
+    event: AuthChangeEvent,
+    session: SupabaseSession | null
+  ) => {
+    if (!isActive()) return;
+
+    const authenticated = !!session;
+    noteAccessToken(session);
+    dispatch({
+      type: "SET_AUTH_INFO",
+      payload: { lastEvent: event, lastEventAt: Date.now() },
+    });
+    setAuthState(authenticated, authenticated ? null : "No active session");
+
+    // The initial session is already reported by checkAuth.
+    if (event === "INITIAL_SESSION") return;
+
+    const details = {
+      event,
+      userId: session?.user.id ?? null,
+      expiresAt: session?.expires_at
+        ? new Date(session.expires_at * 1000).toISOString()
+        : null,
+    };
+    switch (event) {
+      case "SIGNED_IN":
+        // The email goes in the details, where redaction key rules reach it.
+        log(
+          "success",
+          "🔐 Signed in",
+          "system",
+          { ...details, email: session?.user.email ?? null },
+          event
+        );
+        break;
+      case "SIGNED_OUT":
+        log("warning", "🔒 Signed out", "system", details, event);
+        break;
+      case "TOKEN_REFRESHED":
+        log("info", "🔑 Access token refreshed", "system", details, event);
+        break;
+      default:
+        log("info", `🔐 Auth: ${event}`, "system", details, event);
+    }
+  };
+
+  // ==========================================================================
+  // SOCKET HEALTH
+  // ==========================================================================
+
+  const attachSocket = () => {
+    socketMonitor = attachSocketMonitor(supabase?.realtime, {
+      onState: (socketState, at) =>
+        dispatch({
+          type: "SET_SOCKET_STATE",
+          payload: { state: socketState, at },
+        }),
+      onHeartbeatSent: (at) =>
+        dispatch({ type: "SET_HEARTBEAT_PENDING", payload: at }),
+      onHeartbeat: (sample) => {
+        dispatch({ type: "ADD_HEARTBEAT", payload: sample });
+        if (sample.result === "timeout") {
+          log("warning", "💔 Heartbeat missed", "system", {
+            sentAt: new Date(sample.sentAt).toISOString(),
+          });
+        } else if (sample.result === "error") {
+          log("error", "💔 Heartbeat rejected by the server", "system");
+        }
+      },
+      onEvent: (event) => {
+        dispatch({ type: "ADD_SOCKET_EVENT", payload: event });
+        if (event.type === "open") {
+          log("info", "🔌 Socket opened", "system");
+        } else if (event.type === "close") {
+          log(
+            event.wasClean === false ? "warning" : "info",
+            `🔌 Socket closed (${describeCloseCode(event.code)})`,
+            "system",
+            { code: event.code, reason: event.reason, wasClean: event.wasClean }
+          );
+        } else {
+          log("error", "🔴 Socket error", "system");
+        }
+      },
+    });
+
+    dispatch({
+      type: "SET_SOCKET_MONITOR",
+      payload: {
+        supported: socketMonitor !== null,
+        heartbeatIntervalMs: socketMonitor?.heartbeatIntervalMs ?? null,
+      },
+    });
+  };
+
+  // ==========================================================================
+  // MONITORING
+  // ==========================================================================
+
+  const endReconnectCycle = (
+    channelName: string,
+    outcome: ReconnectCycle["outcome"]
+  ): PendingReconnect | null => {
+    const pending = reconnects.get(channelName);
+    if (!pending) return null;
+
+    reconnects.delete(channelName);
+    if (pending.timeoutId !== null) clearTimeout(pending.timeoutId);
+    dispatch({
+      type: "ADD_RECONNECT_CYCLE",
+      payload: {
+        channelName,
+        reason: pending.reason,
+        startedAt: pending.startedAt,
+        endedAt: Date.now(),
+        attempts: pending.attempt,
+        outcome,
+      },
+    });
+    return pending;
+  };
+
+  // Drops the ref first so the CLOSED status from unsubscribe is ignored.
+  const leaveChannel = (channelName: string, channel: RealtimeChannel) => {
+    channelRefs.delete(channelName);
+    const left: Promise<void> = Promise.resolve(channel.unsubscribe()).then(
+      () => undefined,
+      () => undefined
+    );
+    leaving.set(channelName, left);
+    left.then(() => {
+      if (leaving.get(channelName) === left) leaving.delete(channelName);
+    });
+  };
+
+  // Called when a monitored channel errors, times out or is closed by the
+  // server. The dead channel is dropped and, unless auto-reconnect is off, a
+  // fresh one with the same listeners is subscribed after a backoff delay.
+  const handleChannelDrop = (
+    channelName: string,
+    channel: RealtimeChannel,
+    status: ChannelStatus,
+    cause: string
+  ) => {
+    // Say when the whole socket is down rather than just this subscription.
+    const socketState = state.socket.state;
+    const reason =
+      socketState && socketState !== "open"
+        ? `${cause} (socket ${socketState})`
+        : cause;
+
+    try {
+      leaveChannel(channelName, channel);
+    } catch (error) {
+      console.warn("SupabaseDevTools: Error unsubscribing", error);
+    }
+
+    if (!config.autoReconnect) {
+      dispatch({
+        type: "SET_CHANNEL_STATUS",
+        payload: { channelName, status },
+      });
+      return;
+    }
+
+    const maxAttempts = config.reconnectMaxAttempts;
+    const pending = reconnects.get(channelName) ?? {
+      reason,
+      startedAt: Date.now(),
+      attempt: 0,
+      timeoutId: null,
+    };
+
+    if (pending.attempt >= maxAttempts) {
+      endReconnectCycle(channelName, "failed");
+      dispatch({
+        type: "SET_CHANNEL_STATUS",
+        payload: { channelName, status },
+      });
+      log(
+        "error",
+        `❌ Gave up reconnecting after ${pending.attempt} attempts`,
+        "system",
+        { reason: pending.reason, lastError: reason },
+        undefined,
+        channelName
+      );
+      return;
+    }
+
+    pending.attempt += 1;
+    const attempt = pending.attempt;
+    const delay = getReconnectDelay(attempt, config.reconnectBaseDelay);
+
+    pending.timeoutId = setTimeout(() => {
+      pending.timeoutId = null;
+      dispatch({
+        type: "SET_CHANNEL_RECONNECT",
+        payload: {
+          channelName,
+          reconnect: { attempt, maxAttempts, nextAttemptAt: null },
+        },
+      });
+      log(
+        "info",
+        `🔄 Reconnect attempt ${attempt}/${maxAttempts}`,
+        "system",
+        undefined,
+        undefined,
+        channelName
+      );
+      startMonitoring(channelName);
+    }, delay);
+    reconnects.set(channelName, pending);
+
+    dispatch({
+      type: "SET_CHANNEL_STATUS",
+      payload: { channelName, status: "reconnecting" },
+    });
+    dispatch({
+      type: "SET_CHANNEL_RECONNECT",
+      payload: {
+        channelName,
+        reconnect: {
+          attempt,
+          maxAttempts,
+          nextAttemptAt: Date.now() + delay,
+        },
+      },
+    });
+    log(
+      "warning",
+      `🔌 ${reason}, reconnecting in ${(delay / 1000).toFixed(
+        1
+      )}s (${attempt}/${maxAttempts})`,
+      "system",
+      { reason, attempt, delay },
+      undefined,
+      channelName
+    );
+  };
+
+  const startMonitoring = (channelName: string) => {
+    if (!supabase || !state.isAuthenticated || !channelName.trim()) {
+      log(
+        "error",
+        "Cannot start: missing client, auth, or channel name",
+        "system",
+        undefined,
+        undefined,
+        channelName || undefined
+      );
+      return;
+    }
+
+    const existing = channelRefs.get(channelName);
+    if (existing) {
+      try {
+        leaveChannel(channelName, existing);
+      } catch (error) {
+        console.warn("SupabaseDevTools: Error unsubscribing", error);
+      }
+    }
+
+    const left = leaving.get(channelName);
+    if (left) {
+      queuedStarts.add(channelName);
+      dispatch({
+        type: "SET_CHANNEL_STATUS",
+        payload: { channelName, status: "joining" },
+      });
+      left.then(() => {
+        if (queuedStarts.delete(channelName) && isActive()) {
+          startMonitoring(channelName);
+        }
+      });
+      return;
+    }
+
+    // Joining the app's own channel would add listeners to it, and stopping
+    // would then end the app's subscription.
+    const topic = getChannelTopic(channelName);
+    const appChannel = supabase
+      .getChannels?.()
+      .find((channel) => channel.topic === topic && !ownChannels.has(channel));
+    if (appChannel) {
+      dispatch({
+        type: "SET_CHANNEL_STATUS",
+        payload: { channelName, status: "idle" },
+      });
+      log(
+        "warning",
+        `⚠️ The app already has ${channelName} open; tap it from App Channels instead`,
+        "system",
+        { topic, state: appChannel.state },
+        undefined,
+        channelName
+      );
+      return;
+    }
+
+    const channel = supabase.channel(channelName);
+    ownChannels.add(channel);
+    channelRefs.set(channelName, channel);
+    dispatch({
+      type: "SET_CHANNEL_STATUS",
+      payload: { channelName, status: "joining" },
+    });
+
+    // Listeners of a channel that has since been replaced or stopped must
+    // not keep logging.
+    const isCurrent = () =>
+      isActive() && channelRefs.get(channelName) === channel;
+
+    if (config.enableBroadcast) {
+      channel.on("broadcast", { event: `*` }, (payload: any) => {
+        if (!isCurrent()) return;
+        log(
+          "success",
+          `📻 Broadcast: ${payload.event || "unknown"}`,
+          "broadcast",
+          payload,
+          payload.event,
+          channelName
+        );
+      });
+    }
+
+    if (config.enableDatabase) {
+      config.postgresBindings.forEach((binding) => {
+        const label = getPostgresBindingLabel(binding);
+        const error = validatePostgresBinding(binding);
+        if (error) {
+          log(
+            "warning",
+            `⚠️ Skipped binding ${label}: ${error}`,
+            "system",
+            { binding },
+            undefined,
+            channelName
+          );
+          return;
+        }
+
+        channel.on(
+          "postgres_changes",
+          toPostgresChangesFilter(binding),
+          (payload: any) => {
+            if (!isCurrent()) return;
+            log(
+              "success",
+              `🗄️ DB ${payload.eventType}: ${payload.table}`,
+              "database",
+              {
+                eventType: payload.eventType,
+                table: payload.table,
+                schema: payload.schema,
+                new: payload.new,
+                old: payload.old,
+              },
+              payload.eventType,
+              channelName,
+              label
+            );
+
+            const tableName = `${payload.schema}.${payload.table}`;
+            if (
+              payload.eventType === "UPDATE" &&
+              !identityWarnings.has(tableName) &&
+              isIdentityOnlyOld(payload.old ?? {}, payload.new ?? {})
+            ) {
+              identityWarnings.add(tableName);
+              log(
+                "warning",
+                `⚠️ ${tableName} sends only its primary key in old records; set REPLICA IDENTITY FULL to see previous values`,
+                "system",
+                { table: tableName, old: payload.old },
+                payload.eventType,
+                channelName,
+                label
+              );
+            }
+          }
+        );
+      });
+    }
+
+    // Presence listener
+    if (config.enablePresence) {
+      channel.on("presence", { event: "*" }, (payload: any) => {
+        if (!isCurrent()) return;
+        log(
+          "info",
+          `👥 Presence: ${payload.event}`,
+          "presence",
+          payload,
+          payload.event,
+          channelName
+        );
+        dispatch({
+          type: "SET_PRESENCE_STATE",
+          payload: {
+            channelName,
+            state: (redactor
+              ? redactor.redactValue(channel.presenceState())
+              : channel.presenceState()) as Record<string, PresenceMeta[]>,
+            at: Date.now(),
+          },
+        });
+      });
+    }
+
+    channel.subscribe((status: string, err?: Error) => {
+      if (!isCurrent()) return;
+
+      if (err) {
+        log(
+          "error",
+          `❌ Subscription error: ${err.message}`,
+          "system",
+          { error: err },
+          undefined,
+          channelName
+        );
+        handleChannelDrop(channelName, channel, "error", err.message);
+        return;
+      }
+
+      log(
+        "info",
+        `📡 Status: ${status}`,
+        "system",
+        { status },
+        undefined,
+        channelName
+      );
+
+      if (status === "SUBSCRIBED") {
+        dispatch({
+          type: "SET_CHANNEL_STATUS",
+          payload: { channelName, status: "subscribed" },
+        });
+        log(
+          "success",
+          `✅ Monitoring ${channelName}`,
+          "system",
+          undefined,
+          undefined,
+          channelName
+        );
+        const recovered = endReconnectCycle(channelName, "recovered");
+        if (recovered) {
+          log(
+            "success",
+            `🔄 Reconnected after ${recovered.attempt} attempt${
+              recovered.attempt === 1 ? "" : "s"
+            }`,
+            "system",
+            { reason: recovered.reason, attempts: recovered.attempt },
+            undefined,
+            channelName
+          );
+        }
+      } else if (status === "CHANNEL_ERROR") {
+        handleChannelDrop(channelName, channel, "error", "Channel error");
+      } else if (status === "TIMED_OUT") {
+        handleChannelDrop(
+          channelName,
+          channel,
+          "timed_out",
+          "Subscription timed out"
+        );
+      } else if (status === "CLOSED") {
+        handleChannelDrop(channelName, channel, "closed", "Channel closed");
+      }
+    });
+  };
+
+  const stopMonitoring = (channelName: string) => {
+    if (endReconnectCycle(channelName, "cancelled")) {
+      log(
+        "info",
+        "🔄 Reconnect cancelled",
+        "system",
+        undefined,
+        undefined,
+        channelName
+      );
+    }
+
+    queuedStarts.delete(channelName);
+    const channel = channelRefs.get(channelName);
+    if (channel) {
+      try {
+        leaveChannel(channelName, channel);
+        log(
+          "info",
+          `⏹️ Stopped monitoring ${channelName}`,
+          "system",
+          undefined,
+          undefined,
+          channelName
+        );
+      } catch (error) {
+        log(
+          "warning",
+          `⚠️ Error stopping: ${error}`,
+          "system",
+          undefined,
+          undefined,
+          channelName
+        );
+      }
+    }
+
+    dispatch({
+      type: "SET_CHANNEL_STATUS",
+      payload: { channelName, status: "idle" },
+    });
+  };
+
+  const stopAllMonitoring = () => {
+    new Set([
+      ...Array.from(channelRefs.keys()),
+      ...Array.from(reconnects.keys()),
+      ...Array.from(queuedStarts),
+    ]).forEach(stopMonitoring);
+  };
+
+  const startAllMonitoring = () => {
+    config.channels
+      .filter(
+        (name) =>
+          state.channels[name]?.status !== "subscribed" && !reconnects.has(name)
+      )
+      .forEach(startMonitoring);
+  };
+
+  // ==========================================================================
+  // SENDING
+  // ==========================================================================
+
+  const sendBroadcast = async (
+    channelName: string,
+    event: string,
+    payload: unknown
+  ): Promise<boolean> => {
+    const channel = channelRefs.get(channelName);
+    if (!supabase || !state.isAuthenticated || !channel) {
+      log(
+        "warning",
+        "Cannot send: not authenticated or monitoring",
+        "system",
+        undefined,
+        undefined,
+        channelName
+      );
+      return false;
+    }
+
+    const message = { type: "broadcast", event, payload };
+
+    try {
+      const result = await channel.send(message);
+      if (result !== "ok") {
+        log(
+          "error",
+          `❌ Broadcast failed: ${result}`,
+          "system",
+          { ...message, result },
+          event,
+          channelName
+        );
+        return false;
+      }
+
+      log(
+        "success",
+        `📡 Sent broadcast: ${event}`,
+        "self",
+        message,
+        event,
+        channelName
+      );
+      return true;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      log(
+        "error",
+        `❌ Broadcast failed: ${errorMessage}`,
+        "system",
+        { error },
+        event,
+        channelName
+      );
+      return false;
+    }
+  };
+
+  // Tracking goes through the monitor's own channel, so the inspector shows
+  // up in presence like any other client.
+  const updateTrackedPresence = async (
+    channelName: string,
+    tracked: Record<string, unknown> | null
+  ): Promise<boolean> => {
+    const channel = channelRefs.get(channelName);
+    if (!supabase || !state.isAuthenticated || !channel) {
+      log(
+        "warning",
+        "Cannot update presence: not authenticated or monitoring",
+        "system",
+        undefined,
+        undefined,
+        channelName
+      );
+      return false;
+    }
+
+    const action = tracked ? "Track" : "Untrack";
+
+    try {
+      const result = tracked
+        ? await channel.track(tracked)
+        : await channel.untrack();
+      if (result !== "ok") {
+        log(
+          "error",
+          `❌ ${action} failed: ${result}`,
+          "system",
+          { tracked, result },
+          undefined,
+          channelName
+        );
+        return false;
+      }
+
+      dispatch({
+        type: "SET_TRACKED_PRESENCE",
+        payload: { channelName, tracked },
+      });
+      log(
+        "success",
+        tracked ? "👥 Tracking presence" : "👥 Untracked presence",
+        "self",
+        tracked ? { type: "presence", payload: tracked } : undefined,
+        tracked ? "track" : "untrack",
+        channelName
+      );
+      return true;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      log(
+        "error",
+        `❌ ${action} failed: ${errorMessage}`,
+        "system",
+        { error },
+        undefined,
+        channelName
+      );
+      return false;
+    }
+  };
+
+  // ==========================================================================
+  // LATENCY PROBE
+  // ==========================================================================
+
+  const stopLatencyProbe = () => {
+    const probe = latencyProbe;
+    if (!probe) return;
+
+    latencyProbe = null;
+    probe.stop();
+    dispatch({ type: "SET_LATENCY_PROBE_RUNNING", payload: false });
+    log(
+      "info",
+      "⏱️ Latency probe stopped",
+      "system",
+      undefined,
+      undefined,
+      probe.channelName
+    );
+  };
+
+  const startLatencyProbe = () => {
+    if (!supabase || !state.isAuthenticated) {
+      log("warning", "Cannot probe latency: not authenticated", "system");
+      return;
+    }
+    if (latencyProbe) return;
+
+    const intervalMs = config.latencyProbeInterval;
+    const probe = createLatencyProbe(supabase, intervalMs, {
+      onSample: (sample) =>
+        dispatch({ type: "ADD_LATENCY_SAMPLE", payload: sample }),
+      onStatus: (status, error) => {
+        if (latencyProbe !== probe) return;
+
+        if (status === "subscribed") {
+          log(
+            "success",
+            `⏱️ Latency probe running every ${intervalMs / 1000}s`,
+            "system",
+            undefined,
+            undefined,
+            probe.channelName
+          );
+          return;
+        }
+
+        latencyProbe = null;
+        probe.stop();
+        dispatch({ type: "SET_LATENCY_PROBE_RUNNING", payload: false });
+        log(
+          status === "error" ? "error" : "warning",
+          status === "error"
+            ? `❌ Latency probe failed: ${error?.message ?? "Unknown error"}`
+            : "⚠️ Latency probe channel closed",
+          "system",
+          error ? { error } : undefined,
+          undefined,
+          probe.channelName
+        );
+      },
+    });
+
+    latencyProbe = probe;
+    dispatch({ type: "SET_LATENCY_PROBE_RUNNING", payload: true });
+    try {
+      probe.start();
+    } catch (error: unknown) {
+      latencyProbe = null;
+      dispatch({ type: "SET_LATENCY_PROBE_RUNNING", payload: false });
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      log("error", `❌ Latency probe failed: ${errorMessage}`, "system", {
+        error,
+      });
+    }
+  };
+
+  // ==========================================================================
+  // APP CHANNEL TAPS & WIRE
+  // ==========================================================================
+
+  const getAppChannels = (): RealtimeChannel[] => {
+    if (!supabase?.getChannels) return [];
+
+    return supabase
+      .getChannels()
+      .filter(
+        (channel) =>
+          !ownChannels.has(channel) &&
+          !getChannelName(channel.topic ?? "").startsWith(LATENCY_PROBE_EVENT)
+      );
+  };
+
+  const untapAppChannel = (topic: string, reason?: string): boolean => {
+    const untap = taps.get(topic);
+    if (!untap) return false;
+
+    taps.delete(topic);
+    untap();
+    log(
+      "info",
+      reason ? `👂 Tap removed: ${reason}` : "👂 Stopped tapping",
+      "system",
+      { topic },
+      undefined,
+      getChannelName(topic)
+    );
+    return true;
+  };
+
+  const tapAppChannel = (topic: string): boolean => {
+    const channel = getAppChannels().find((item) => item.topic === topic);
+    if (!channel || taps.has(topic)) return false;
+
+    const channelName = getChannelName(topic);
+    const untap = tapChannel(channel, (tapped) =>
+      log(
+        "success",
+        `🔍 Tap: ${tapped.event}`,
+        tapped.source,
+        tapped.payload && typeof tapped.payload === "object"
+          ? (tapped.payload as Record<string, unknown>)
+          : { payload: tapped.payload },
+        tapped.event,
+        channelName,
+        tapped.binding
+      )
+    );
+
+    taps.set(topic, untap);
+    log(
+      "info",
+      `👂 Tapping ${channelName}`,
+      "system",
+      { ...describeChannel(channel) },
+      undefined,
+      channelName
+    );
+    return true;
+  };
+
+  const stopWireCapture = () => {
+    if (!wireTap) return;
+
+    wireTap();
+    wireTap = null;
+    dispatch({ type: "SET_WIRE_CAPTURING", payload: false });
+    log("info", "🔌 Wire capture paused", "system");
+  };
+
+  const startWireCapture = (): boolean => {
+    if (wireTap) return true;
+
+    const detach = attachWireTap(supabase?.realtime, (frame) =>
+      dispatch({
+        type: "ADD_WIRE_FRAME",
+        payload: redactor
+          ? { ...frame, payload: redactor.redactValue(frame.payload) }
+          : frame,
+      })
+    );
+    if (!detach) {
+      log(
+        "warning",
+        "Cannot capture frames: realtime client has no encode/decode hooks",
+        "system"
+      );
+      return false;
+    }
+
+    wireTap = detach;
+    dispatch({ type: "SET_WIRE_CAPTURING", payload: true });
+    log("info", "🔌 Wire capture started", "system");
+    return true;
+  };
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    abortController = new AbortController();
+
+    if (supabase) {
+      checkAuth();
+      try {
+        authSubscription =
+          supabase.auth.onAuthStateChange(handleAuthChange).data.subscription;
+      } catch (error) {
+        console.warn("SupabaseDevTools: Failed to watch auth changes", error);
+      }
+    } else {
+      setAuthState(false, "Supabase client not found");
+      log("error", "🔴 Supabase client not available", "system");
+    }
+
+    // Watch the socket under every channel for as long as the inspector runs.
+    attachSocket();
+  };
+
+  const stop = () => {
+    // Teardown logs are dropped along with everything else.
+    running = false;
+    abortController.abort();
+    discardPending();
+    authSubscription?.unsubscribe();
+    authSubscription = null;
+    socketMonitor?.detach();
+    socketMonitor = null;
+    taps.forEach((untap) => untap());
+    taps.clear();
+    if (wireTap) {
+      wireTap();
+      wireTap = null;
+      dispatch({ type: "SET_WIRE_CAPTURING", payload: false });
+    }
+    stopAllMonitoring();
+    if (latencyProbe) {
+      latencyProbe.stop();
+      latencyProbe = null;
+      dispatch({ type: "SET_LATENCY_PROBE_RUNNING", payload: false });
+    }
+  };
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispatch,
+    getConfig: () => config,
+    setConfig(next) {
+      if (next.redactionRules !== config.redactionRules) {
+        redactor = createRedactor(next.redactionRules);
+      }
+      config = next;
+      dispatch({ type: "SET_LOG_CAPACITY", payload: next.maxLogs });
+    },
+    setTransformers(next) {
+      transformers = next;
+    },
+    start,
+    stop,
+    log,
+    replay,
+    clearLogs() {
+      discardPending();
+      dispatch({ type: "CLEAR_LOGS" });
+    },
+    flush,
+    startMonitoring,
+    stopMonitoring,
+    startAllMonitoring,
+    stopAllMonitoring,
+    sendBroadcast,
+    updateTrackedPresence,
+    startLatencyProbe,
+    stopLatencyProbe,
+    startWireCapture,
+    stopWireCapture,
+    getAppChannels,
+    getTappedTopics: () => Array.from(taps.keys()),
+    tapAppChannel,
+    untapAppChannel,
+  };
+};
@@ -0,0 +1,41 @@
+import type { ReconnectCycle } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// RECONNECT POLICY
+// ============================================================================
+
+export const RECONNECT_MAX_DELAY = 30000;
+export const MAX_RECONNECT_CYCLES = 50;
+
+// Exponential backoff with equal jitter: half of the capped delay is fixed and
+// the other half random, so channels that dropped together do not all retry
+// at the same moment.
+export const getReconnectDelay = (
+  attempt: number,
+  baseDelay: number,
+  random: () => number = Math.random
+): number => {
+  const ceiling = Math.min(
+    RECONNECT_MAX_DELAY,
+    baseDelay * Math.pow(2, Math.max(0, attempt - 1))
+  );
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+};
+
+export const summarizeReconnects = (
+  cycles: readonly ReconnectCycle[]
+): Record<ReconnectCycle["outcome"], number> => {
+  const summary = { recovered: 0, failed: 0, cancelled: 0 };
+  cycles.forEach((cycle) => {
+    summary[cycle.outcome] += 1;
+  });
+  return summary;
+};
+
+// A reconnect cycle in progress, kept next to its timer outside the reducer.
+export interface PendingReconnect {
+  readonly reason: string;
+  readonly startedAt: number;
+  attempt: number;
+  timeoutId: ReturnType<typeof setTimeout> | null;
+}
@@ -0,0 +1,139 @@
+import type {
+  LogEntry,
+  RedactionRule,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+export const REDACTED = "[REDACTED]";
+
+export const REDACTION_KINDS: readonly RedactionRule["kind"][] = [
+  "key",
+  "path",
+  "pattern",
+];
+
+export const DEFAULT_REDACTION_RULES: readonly RedactionRule[] = [
+  { id: "password", kind: "key", value: "password" },
+  { id: "access-token", kind: "key", value: "access_token" },
+  { id: "refresh-token", kind: "key", value: "refresh_token" },
+];
+
+export const createRedactionRule = (): RedactionRule => ({
+  id: Math.random().toString(36).slice(2, 9),
+  kind: "key",
+  value: "",
+});
+
+// `$.payload.items[0].token` and `payload.items.0.token` are the same path;
+// `*` matches any key or index.
+const parsePath = (path: string): string[] =>
+  path
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+|\*)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+
+export const validateRedactionRule = (rule: RedactionRule): string | null => {
+  const value = rule.value.trim();
+  if (!value) return "Value is required";
+
+  if (rule.kind === "path" && parsePath(value).length === 0) {
+    return "Expected a path, e.g. payload.user.email";
+  }
+  if (rule.kind === "pattern") {
+    try {
+      // It would mask the gap between every two characters.
+      if (new RegExp(value).test("")) return "Pattern matches empty text";
+    } catch (error) {
+      return error instanceof Error ? error.message : "Invalid pattern";
+    }
+  }
+  return null;
+};
+
+export interface Redactor {
+  redactValue(value: unknown): unknown;
+  redactEntry<T extends Pick<LogEntry, "message" | "details">>(entry: T): T;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+// Null when no valid rule is left, so callers can skip the walk entirely.
+// Invalid rules are ignored.
+export const createRedactor = (
+  rules: readonly RedactionRule[]
+): Redactor | null => {
+  const valid = rules.filter((rule) => !validateRedactionRule(rule));
+  if (valid.length === 0) return null;
+
+  const keys = new Set(
+    valid
+      .filter((rule) => rule.kind === "key")
+      .map((rule) => rule.value.trim().toLowerCase())
+  );
+  const paths = valid
+    .filter((rule) => rule.kind === "path")
+    .map((rule) => parsePath(rule.value));
+  const patterns = valid
+    .filter((rule) => rule.kind === "pattern")
+    .map((rule) => new RegExp(rule.value.trim(), "g"));
+
+  const matchesPath = (path: readonly string[]): boolean =>
+    paths.some(
+      (rule) =>
+        rule.length === path.length &&
+        rule.every(
+          (segment, index) => segment === "*" || segment === path[index]
+        )
+    );
+
+  const redactString = (text: string): string =>
+    patterns.reduce(
+      (current, pattern) => current.replace(pattern, REDACTED),
+      text
+    );
+
+  const redact = (value: unknown, path: readonly string[]): unknown => {
+    if (path.length > 0 && matchesPath(path)) return REDACTED;
+    if (typeof value === "string") return redactString(value);
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => redact(item, [...path, String(index)]));
+    }
+
+    // Errors keep their message, which JSON.stringify would otherwise drop.
+    const record =
+      value instanceof Error
+        ? { ...value, name: value.name, message: value.message }
+        : isPlainObject(value)
+        ? value
+        : null;
+    if (!record) return value;
+
+    return Object.fromEntries(
+      Object.entries(record).map(([key, item]) => [
+        key,
+        keys.has(key.toLowerCase()) ? REDACTED : redact(item, [...path, key]),
+      ])
+    );
+  };
+
+  return {
+    redactValue: (value) => redact(value, []),
+    redactEntry: (entry) => ({
+      ...entry,
+      message: redactString(entry.message),
+      details: entry.details
+        ? (redact(entry.details, []) as Record<string, unknown>)
+        : entry.details,
+    }),
+  };
+};
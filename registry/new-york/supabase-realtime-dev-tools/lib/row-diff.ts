@@ -0,0 +1,81 @@
+import type { LogEntry } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// ROW DIFF
+// ============================================================================
+
+// "unknown" is a column the old record does not carry because the table only
+// sends its replica identity, so there is nothing to compare against.
+export type ColumnChangeKind =
+  | "changed"
+  | "added"
+  | "removed"
+  | "unchanged"
+  | "unknown";
+
+export interface ColumnChange {
+  readonly column: string;
+  readonly kind: ColumnChangeKind;
+  readonly before: unknown;
+  readonly after: unknown;
+}
+
+export interface RowDiff {
+  readonly changes: readonly ColumnChange[];
+  // True when `old` holds only the identity columns, i.e. the table lacks
+  // REPLICA IDENTITY FULL.
+  readonly identityOnly: boolean;
+}
+
+type Row = Record<string, unknown>;
+
+const isRow = (value: unknown): value is Row =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// The `new` and `old` records of a database UPDATE entry, or null for any
+// other entry.
+export const getUpdateRows = (
+  entry: Pick<LogEntry, "source" | "details">
+): { readonly newRow: Row; readonly oldRow: Row } | null => {
+  if (entry.source !== "database" || !entry.details) return null;
+  const { eventType, new: newRow, old: oldRow } = entry.details;
+  if (eventType !== "UPDATE" || !isRow(newRow)) return null;
+  return { newRow, oldRow: isRow(oldRow) ? oldRow : {} };
+};
+
+// Without REPLICA IDENTITY FULL, Postgres only logs the primary key of the
+// old row, so `old` is a strict subset of the columns in `new`.
+export const isIdentityOnlyOld = (oldRow: Row, newRow: Row): boolean => {
+  const oldColumns = Object.keys(oldRow);
+  return (
+    oldColumns.length < Object.keys(newRow).length &&
+    oldColumns.every((column) => column in newRow)
+  );
+};
+
+export const diffRows = (oldRow: Row, newRow: Row): RowDiff => {
+  const identityOnly = isIdentityOnlyOld(oldRow, newRow);
+  const columns = Array.from(
+    new Set([...Object.keys(newRow), ...Object.keys(oldRow)])
+  );
+
+  const changes = columns.map((column): ColumnChange => {
+    const before = oldRow[column];
+    const after = newRow[column];
+    const kind: ColumnChangeKind = !(column in oldRow)
+      ? identityOnly
+        ? "unknown"
+        : "added"
+      : !(column in newRow)
+      ? "removed"
+      : isSameValue(before, after)
+      ? "unchanged"
+      : "changed";
+    return { column, kind, before, after };
+  });
+
+  return { changes, identityOnly };
+};
@@ -0,0 +1,169 @@
+import type {
+  LogEntry,
+  RowEvent,
+  RowEventType,
+  RowHistory,
+  RowHistoryState,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import { getPayloadTable } from "@/registry/new-york/supabase-realtime-dev-tools/lib/payload-size";
+import { isIdentityOnlyOld } from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-diff";
+
+// ============================================================================
+// ROW HISTORY
+// ============================================================================
+
+// The least recently changed rows are dropped past this.
+export const MAX_ROW_HISTORIES = 500;
+
+// Oldest events of a row are dropped past this.
+export const MAX_ROW_EVENTS = 100;
+
+export const EMPTY_ROW_HISTORY: RowHistoryState = {
+  rows: {},
+  keyColumns: {},
+  unkeyed: {},
+};
+
+// Rows are keyed by `id` until an identity-only `old` reveals the table's
+// actual primary key.
+const DEFAULT_KEY_COLUMNS: readonly string[] = ["id"];
+
+const ROW_EVENT_TYPES: readonly RowEventType[] = ["INSERT", "UPDATE", "DELETE"];
+
+type Row = Record<string, unknown>;
+
+interface ParsedRowEvent {
+  readonly table: string;
+  readonly eventType: RowEventType;
+  readonly newRow: Row | null;
+  readonly oldRow: Row | null;
+}
+
+const isRow = (value: unknown): value is Row =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// realtime-js sends `{}` for the side of the change that does not exist.
+const toRecord = (value: unknown): Row | null =>
+  isRow(value) && Object.keys(value).length > 0 ? value : null;
+
+const parseRowEvent = (
+  entry: Pick<LogEntry, "source" | "details">
+): ParsedRowEvent | null => {
+  const table = getPayloadTable(entry);
+  if (!table || !entry.details) return null;
+  const { eventType, new: newRow, old: oldRow } = entry.details;
+  if (!ROW_EVENT_TYPES.includes(eventType as RowEventType)) return null;
+  return {
+    table,
+    eventType: eventType as RowEventType,
+    newRow: toRecord(newRow),
+    oldRow: toRecord(oldRow),
+  };
+};
+
+const pickKey = (
+  keyColumns: readonly string[],
+  event: ParsedRowEvent
+): Row | null => {
+  // A DELETE only carries `old`.
+  const record = event.newRow ?? event.oldRow;
+  if (!record || !keyColumns.every((column) => column in record)) return null;
+  return Object.fromEntries(
+    keyColumns.map((column) => [column, record[column]])
+  );
+};
+
+export const formatRowKey = (key: Readonly<Record<string, unknown>>): string =>
+  Object.entries(key)
+    .map(
+      ([column, value]) =>
+        `${column}=${typeof value === "string" ? value : JSON.stringify(value)}`
+    )
+    .join(", ");
+
+const toRowId = (table: string, key: Row): string =>
+  `${table} ${formatRowKey(key)}`;
+
+// Id of the row history a database entry belongs to, or null when the entry
+// is not a row change or its row has no recognizable primary key.
+export const getRowHistoryId = (
+  history: RowHistoryState,
+  entry: Pick<LogEntry, "source" | "details">
+): string | null => {
+  const event = parseRowEvent(entry);
+  if (!event) return null;
+  const key = pickKey(
+    history.keyColumns[event.table] ?? DEFAULT_KEY_COLUMNS,
+    event
+  );
+  return key ? toRowId(event.table, key) : null;
+};
+
+export const isRowDeleted = (row: RowHistory): boolean =>
+  row.events[row.events.length - 1]?.eventType === "DELETE";
+
+// Oldest first. The maps are copied once per call.
+export const addRowEvents = (
+  history: RowHistoryState,
+  entries: readonly LogEntry[]
+): RowHistoryState => {
+  const changes = entries.flatMap((entry) => {
+    const event = parseRowEvent(entry);
+    return event ? [{ entry, event }] : [];
+  });
+  if (changes.length === 0) return history;
+
+  const rows: Record<string, RowHistory> = { ...history.rows };
+  const keyColumns: Record<string, readonly string[]> = {
+    ...history.keyColumns,
+  };
+  const unkeyed: Record<string, number> = { ...history.unkeyed };
+
+  changes.forEach(({ entry, event }) => {
+    const { table } = event;
+
+    const learned =
+      event.eventType === "UPDATE" &&
+      event.oldRow &&
+      event.newRow &&
+      isIdentityOnlyOld(event.oldRow, event.newRow)
+        ? Object.keys(event.oldRow)
+        : null;
+    if (learned && learned.join() !== keyColumns[table]?.join()) {
+      keyColumns[table] = learned;
+    }
+
+    const key = pickKey(keyColumns[table] ?? DEFAULT_KEY_COLUMNS, event);
+    if (!key) {
+      unkeyed[table] = (unkeyed[table] ?? 0) + 1;
+      return;
+    }
+
+    const id = toRowId(table, key);
+    const rowEvent: RowEvent = {
+      logId: entry.id,
+      eventType: event.eventType,
+      receivedAt: entry.receivedAt,
+      channelName: entry.channelName ?? null,
+      newRow: event.newRow,
+      oldRow: event.oldRow,
+    };
+    rows[id] = {
+      id,
+      table,
+      key,
+      events: [...(rows[id]?.events ?? []), rowEvent].slice(-MAX_ROW_EVENTS),
+      lastAt: entry.receivedAt,
+    };
+  });
+
+  const ids = Object.keys(rows);
+  if (ids.length > MAX_ROW_HISTORIES) {
+    ids
+      .sort((a, b) => rows[a].lastAt - rows[b].lastAt)
+      .slice(0, ids.length - MAX_ROW_HISTORIES)
+      .forEach((id) => delete rows[id]);
+  }
+
+  return { rows, keyColumns, unkeyed };
+};
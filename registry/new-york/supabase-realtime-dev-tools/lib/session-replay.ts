@@ -0,0 +1,275 @@
+import type {
+  LogEntry,
+  RecordedEvent,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  CAPTURE_FORMAT,
+  LOG_SOURCES,
+  LOG_TYPES,
+  parseCapture,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-export";
+
+// ============================================================================
+// SESSION RECORDING
+// ============================================================================
+
+export const RECORDING_FORMAT = "supabase-realtime-devtools-recording";
+export const RECORDING_VERSION = 1;
+
+export const REPLAY_SPEEDS = [1, 2, 10] as const;
+
+export interface SessionRecording {
+  readonly format: typeof RECORDING_FORMAT;
+  readonly version: number;
+  readonly name: string;
+  readonly startedAt: number;
+  readonly endedAt: number;
+  // Oldest first, in the order they were received.
+  readonly events: readonly RecordedEvent[];
+}
+
+// Replay markers are added on the way out, never stored.
+export const toRecordedEvent = ({
+  receivedAt,
+  type,
+  source,
+  message,
+  details,
+  channelName,
+  event,
+  binding,
+  size,
+  tabId,
+}: Omit<LogEntry, "id" | "timestamp">): RecordedEvent => ({
+  receivedAt,
+  type,
+  source,
+  message,
+  details,
+  channelName,
+  event,
+  binding,
+  size,
+  tabId,
+});
+
+export const createRecording = (
+  startedAt: number,
+  events: readonly RecordedEvent[],
+  endedAt: number = Date.now()
+): SessionRecording => ({
+  format: RECORDING_FORMAT,
+  version: RECORDING_VERSION,
+  name: `session-${new Date(startedAt).toISOString().replace(/[:.]/g, "-")}`,
+  startedAt,
+  endedAt,
+  events,
+});
+
+export const serializeRecording = (recording: SessionRecording): string =>
+  JSON.stringify(recording, null, 2);
+
+export const downloadRecording = (recording: SessionRecording): void => {
+  const blob = new Blob([serializeRecording(recording)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${recording.name}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const isTime = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Caught here so a file edited by hand or cut short is rejected up front
+// instead of failing part way through a replay.
+const assertRecordedEvent = (value: unknown, index: number): void => {
+  const event = value as Partial<RecordedEvent> | null;
+  const label = `Event #${index + 1}`;
+  if (!event || typeof event !== "object") {
+    throw new Error(`${label} is not an object`);
+  }
+  if (!isTime(event.receivedAt)) {
+    throw new Error(`${label} has no receivedAt time`);
+  }
+  if (typeof event.message !== "string") {
+    throw new Error(`${label} has no message`);
+  }
+  if (!LOG_TYPES.includes(event.type as RecordedEvent["type"])) {
+    throw new Error(`${label} has an unknown type: ${event.type}`);
+  }
+  if (!LOG_SOURCES.includes(event.source as RecordedEvent["source"])) {
+    throw new Error(`${label} has an unknown source: ${event.source}`);
+  }
+  if (
+    event.details !== undefined &&
+    (!event.details || typeof event.details !== "object")
+  ) {
+    throw new Error(`${label} has details that are not an object`);
+  }
+};
+
+// Exported log captures replay too: their entries carry receive times, they
+// are just stored newest first.
+export const parseRecording = (
+  text: string,
+  fileName: string
+): SessionRecording => {
+  let parsed: Partial<SessionRecording> | null = null;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Not a single JSON document, so possibly an NDJSON or CSV capture.
+  }
+
+  if (parsed && parsed.format === RECORDING_FORMAT) {
+    if (
+      typeof parsed.version !== "number" ||
+      parsed.version > RECORDING_VERSION
+    ) {
+      throw new Error(`Unsupported recording version: ${parsed.version}`);
+    }
+    if (!Array.isArray(parsed.events)) {
+      throw new Error("Recording has no events");
+    }
+    if (!isTime(parsed.startedAt) || !isTime(parsed.endedAt)) {
+      throw new Error("Recording has no start or end time");
+    }
+    parsed.events.forEach(assertRecordedEvent);
+    return parsed as SessionRecording;
+  }
+
+  if (parsed && (parsed as { format?: string }).format !== CAPTURE_FORMAT) {
+    throw new Error("Not a DevTools recording or capture");
+  }
+
+  const capture = parseCapture(text);
+  const events = [...capture.logs]
+    .sort((a, b) => a.receivedAt - b.receivedAt)
+    .map(toRecordedEvent);
+  if (events.length === 0) throw new Error("Capture has no logs to replay");
+
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    name: fileName.replace(/\.[^.]+$/, ""),
+    startedAt: events[0].receivedAt,
+    endedAt: events[events.length - 1].receivedAt,
+    events,
+  };
+};
+
+// ============================================================================
+// TIMED REPLAY
+// ============================================================================
+
+export type ReplayStatus = "playing" | "paused" | "finished";
+
+export interface ReplayProgress {
+  readonly status: ReplayStatus;
+  readonly position: number;
+  readonly total: number;
+  readonly speed: number;
+}
+
+export interface ReplayController {
+  play(): void;
+  pause(): void;
+  step(): void;
+  stop(): void;
+  setSpeed(speed: number): void;
+}
+
+interface ReplayHandlers {
+  readonly onEvent: (event: RecordedEvent) => void;
+  readonly onProgress: (progress: ReplayProgress) => void;
+}
+
+// Events are re-emitted with the gaps they were received with, divided by the
+// speed. Pausing and stepping keep the position; the next play() waits the
+// remaining gap to the following event.
+export const createReplayController = (
+  recording: SessionRecording,
+  { onEvent, onProgress }: ReplayHandlers,
+  initialSpeed = 1
+): ReplayController => {
+  const { events } = recording;
+  let position = 0;
+  let speed = initialSpeed;
+  let status: ReplayStatus = "paused";
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const report = () =>
+    onProgress({ status, position, total: events.length, speed });
+
+  const clearTimer = () => {
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+  };
+
+  const emitNext = () => {
+    onEvent(events[position]);
+    position += 1;
+    if (position >= events.length) {
+      status = "finished";
+      clearTimer();
+    }
+  };
+
+  const scheduleNext = () => {
+    clearTimer();
+    if (status !== "playing") return;
+
+    const previous = position > 0 ? events[position - 1].receivedAt : null;
+    const delay =
+      previous === null
+        ? 0
+        : Math.max(0, events[position].receivedAt - previous) / speed;
+
+    timeoutId = setTimeout(() => {
+      timeoutId = null;
+      emitNext();
+      report();
+      scheduleNext();
+    }, delay);
+  };
+
+  return {
+    play() {
+      if (status === "finished" || events.length === 0) return;
+      status = "playing";
+      report();
+      scheduleNext();
+    },
+    pause() {
+      if (status !== "playing") return;
+      clearTimer();
+      status = "paused";
+      report();
+    },
+    step() {
+      if (status === "finished" || events.length === 0) return;
+      clearTimer();
+      if (status === "playing") status = "paused";
+      emitNext();
+      report();
+    },
+    stop() {
+      clearTimer();
+      status = "finished";
+      report();
+    },
+    setSpeed(nextSpeed: number) {
+      speed = nextSpeed;
+      report();
+      if (status === "playing") scheduleNext();
+    },
+  };
+};
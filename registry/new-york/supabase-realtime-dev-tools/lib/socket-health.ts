@@ -0,0 +1,322 @@
+import type {
+  HeartbeatSample,
+  RealtimeSocket,
+  SocketEvent,
+  SocketState,
+  SocketStateChange,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import { resolveSocket } from "@/registry/new-york/supabase-realtime-dev-tools/lib/wire-tap";
+
+// ============================================================================
+// SOCKET MONITOR
+// ============================================================================
+
+export const MAX_HEARTBEATS = 100;
+export const MAX_SOCKET_EVENTS = 50;
+export const UPTIME_WINDOW_MS = 15 * 60 * 1000;
+
+// connectionState() is read this often to catch connecting and closing, which
+// have no callbacks.
+const STATE_POLL_MS = 1000;
+
+const SOCKET_STATES: readonly string[] = [
+  "connecting",
+  "open",
+  "closing",
+  "closed",
+];
+
+const HEARTBEAT_RESULTS: readonly string[] = [
+  "ok",
+  "error",
+  "timeout",
+  "disconnected",
+];
+
+export interface SocketMonitor {
+  readonly heartbeatIntervalMs: number | null;
+  detach(): void;
+}
+
+interface SocketMonitorHandlers {
+  readonly onState: (state: SocketState, at: number) => void;
+  readonly onHeartbeatSent: (at: number) => void;
+  readonly onHeartbeat: (sample: HeartbeatSample) => void;
+  readonly onEvent: (event: SocketEvent) => void;
+}
+
+const readState = (socket: RealtimeSocket): SocketState | null => {
+  try {
+    const state = socket.connectionState?.();
+    return state && SOCKET_STATES.includes(state)
+      ? (state as SocketState)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Registers a state callback on either socket flavour and returns its removal,
+// or null when neither is available.
+const listen = (
+  socket: RealtimeSocket,
+  type: "open" | "close" | "error",
+  callback: (event?: unknown) => void
+): (() => void) | null => {
+  const register =
+    type === "open"
+      ? socket.onOpen
+      : type === "close"
+      ? socket.onClose
+      : socket.onError;
+  if (typeof register === "function" && typeof socket.off === "function") {
+    const ref = register.call(socket, callback);
+    return () => socket.off?.([ref]);
+  }
+
+  const callbacks = socket.stateChangeCallbacks;
+  if (!callbacks || !Array.isArray(callbacks[type])) return null;
+  callbacks[type].push(callback);
+  return () => {
+    callbacks[type] = callbacks[type].filter((entry) => entry !== callback);
+  };
+};
+
+const toCloseEvent = (event: unknown, at: number): SocketEvent => {
+  const { code, reason, wasClean } = (event ?? {}) as Record<string, unknown>;
+  return {
+    type: "close",
+    at,
+    code: typeof code === "number" ? code : null,
+    reason: typeof reason === "string" && reason ? reason : null,
+    wasClean: typeof wasClean === "boolean" ? wasClean : null,
+  };
+};
+
+// Watches the connection underneath every channel: its state, open/close/error
+// callbacks with close codes, and the heartbeat callback the client already
+// calls on send and settle. The app's own heartbeat callback keeps running.
+// Returns null when the client exposes none of these.
+export const attachSocketMonitor = (
+  realtime: RealtimeSocket | undefined,
+  { onState, onHeartbeatSent, onHeartbeat, onEvent }: SocketMonitorHandlers
+): SocketMonitor | null => {
+  const socket = resolveSocket(realtime);
+  if (!socket) return null;
+
+  const cleanups: (() => void)[] = [];
+  let lastState: SocketState | null = null;
+
+  const reportState = (state: SocketState | null) => {
+    if (state === null || state === lastState) return;
+    lastState = state;
+    onState(state, Date.now());
+  };
+
+  const guard =
+    <T extends unknown[]>(fn: (...args: T) => void) =>
+    (...args: T) => {
+      try {
+        fn(...args);
+      } catch (error) {
+        console.warn("SupabaseDevTools: Socket monitor failed", error);
+      }
+    };
+
+  // Heartbeats
+  const originalHeartbeat = socket.heartbeatCallback;
+  let sentAt: number | null = null;
+  const recordHeartbeat = guard((status: string, latency?: number) => {
+    const at = Date.now();
+    if (status === "sent") {
+      sentAt = at;
+      onHeartbeatSent(at);
+      return;
+    }
+    if (!HEARTBEAT_RESULTS.includes(status)) return;
+
+    const replied = status === "ok" || status === "error";
+    onHeartbeat({
+      sentAt: status === "disconnected" ? at : sentAt ?? at,
+      rttMs: replied ? latency ?? (sentAt !== null ? at - sentAt : null) : null,
+      result: status as HeartbeatSample["result"],
+    });
+    sentAt = null;
+  });
+  const heartbeat = (status: string, latency?: number) => {
+    recordHeartbeat(status, latency);
+    originalHeartbeat?.call(socket, status, latency);
+  };
+
+  try {
+    socket.heartbeatCallback = heartbeat;
+  } catch {
+    // Read-only; heartbeats are not tracked.
+  }
+  if (socket.heartbeatCallback === heartbeat) {
+    cleanups.push(() => {
+      if (socket.heartbeatCallback === heartbeat) {
+        socket.heartbeatCallback = originalHeartbeat;
+      }
+    });
+  }
+
+  // Open / close / error
+  const listeners = [
+    listen(
+      socket,
+      "open",
+      guard(() => {
+        const at = Date.now();
+        onEvent({
+          type: "open",
+          at,
+          code: null,
+          reason: null,
+          wasClean: null,
+        });
+        reportState("open");
+      })
+    ),
+    listen(
+      socket,
+      "close",
+      guard((event?: unknown) => {
+        onEvent(toCloseEvent(event, Date.now()));
+        reportState(readState(socket) ?? "closed");
+      })
+    ),
+    listen(
+      socket,
+      "error",
+      guard(() => {
+        onEvent({
+          type: "error",
+          at: Date.now(),
+          code: null,
+          reason: null,
+          wasClean: null,
+        });
+      })
+    ),
+  ];
+  listeners.forEach((off) => off && cleanups.push(off));
+
+  // State
+  if (typeof socket.connectionState === "function") {
+    reportState(readState(socket));
+    const intervalId = setInterval(
+      () => reportState(readState(socket)),
+      STATE_POLL_MS
+    );
+    cleanups.push(() => clearInterval(intervalId));
+  }
+
+  if (cleanups.length === 0) return null;
+
+  return {
+    heartbeatIntervalMs:
+      typeof socket.heartbeatIntervalMs === "number"
+        ? socket.heartbeatIntervalMs
+        : null,
+    detach() {
+      cleanups.forEach((cleanup) => cleanup());
+      cleanups.length = 0;
+    },
+  };
+};
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+// Drops the changes that ended before the uptime window, keeping the one in
+// effect when it started.
+export const pruneStateChanges = (
+  changes: readonly SocketStateChange[],
+  now: number,
+  windowMs: number = UPTIME_WINDOW_MS
+): SocketStateChange[] => {
+  const windowStart = now - windowMs;
+  let first = 0;
+  while (first + 1 < changes.length && changes[first + 1].at <= windowStart) {
+    first += 1;
+  }
+  return changes.slice(first);
+};
+
+// Share of the observed part of the window the socket spent open, 0–100, or
+// null before the first state is known.
+export const getUptimePercent = (
+  changes: readonly SocketStateChange[],
+  now: number,
+  windowMs: number = UPTIME_WINDOW_MS
+): number | null => {
+  const windowStart = now - windowMs;
+  let observed = 0;
+  let open = 0;
+
+  changes.forEach((change, index) => {
+    const start = Math.max(change.at, windowStart);
+    const end = Math.min(changes[index + 1]?.at ?? now, now);
+    if (end <= start) return;
+    observed += end - start;
+    if (change.state === "open") open += end - start;
+  });
+
+  return observed > 0 ? (open / observed) * 100 : null;
+};
+
+export interface HeartbeatSummary {
+  readonly replied: number;
+  readonly avgRttMs: number | null;
+  readonly lastRttMs: number | null;
+  readonly lastReplyAt: number | null;
+}
+
+export const summarizeHeartbeats = (
+  heartbeats: readonly HeartbeatSample[]
+): HeartbeatSummary => {
+  const replied = heartbeats.filter((sample) => sample.rttMs !== null);
+  const last = replied[replied.length - 1];
+  return {
+    replied: replied.length,
+    avgRttMs: replied.length
+      ? replied.reduce((total, sample) => total + (sample.rttMs ?? 0), 0) /
+        replied.length
+      : null,
+    lastRttMs: last?.rttMs ?? null,
+    lastReplyAt: last ? last.sentAt + (last.rttMs ?? 0) : null,
+  };
+};
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
+
+// Standard and Phoenix-relevant WebSocket close codes.
+const CLOSE_CODES: Record<number, string> = {
+  1000: "normal",
+  1001: "going away",
+  1002: "protocol error",
+  1005: "no status",
+  1006: "abnormal",
+  1008: "policy violation",
+  1009: "message too big",
+  1011: "server error",
+  1012: "service restart",
+  1013: "try again later",
+};
+
+export const describeCloseCode = (code: number | null): string =>
+  code === null
+    ? "no code"
+    : CLOSE_CODES[code]
+    ? `${code} ${CLOSE_CODES[code]}`
+    : String(code);
@@ -0,0 +1,106 @@
+import type { LogEntry } from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import { toJsonLogs } from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-export";
+
+// ============================================================================
+// CROSS-TAB SYNC
+// ============================================================================
+
+const CHANNEL_NAME = "supabase-realtime-devtools";
+
+type TabMessage =
+  | { readonly type: "hello"; readonly tabId: string }
+  | { readonly type: "here"; readonly tabId: string }
+  | { readonly type: "bye"; readonly tabId: string }
+  | {
+      readonly type: "logs";
+      readonly tabId: string;
+      readonly logs: readonly LogEntry[];
+    };
+
+export interface TabSyncHandlers {
+  // Oldest first, with the sending tab's own ids.
+  onLogs(tabId: string, logs: readonly LogEntry[]): void;
+  onTabsChange(tabIds: readonly string[]): void;
+}
+
+export interface TabSync {
+  readonly tabId: string;
+  // Oldest first.
+  shareLogs(logs: readonly LogEntry[]): void;
+  close(): void;
+}
+
+export const isTabSyncSupported = (): boolean =>
+  typeof BroadcastChannel !== "undefined";
+
+export const createTabId = (): string => Math.random().toString(36).slice(2, 6);
+
+// Every DevTools instance of the origin joins one BroadcastChannel. Tabs
+// announce themselves when they join, answer newcomers, and say goodbye when
+// they close or the page goes away.
+export const createTabSync = (
+  tabId: string,
+  handlers: TabSyncHandlers
+): TabSync => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const tabs = new Set<string>();
+
+  // Builds the message inside the try, so a payload that cannot be sent is
+  // only ever a warning.
+  const post = (getMessage: () => TabMessage) => {
+    try {
+      channel.postMessage(getMessage());
+    } catch (error) {
+      console.warn("SupabaseDevTools: Failed to message other tabs", error);
+    }
+  };
+
+  const setTab = (id: string, present: boolean) => {
+    if (tabs.has(id) === present) return;
+    if (present) tabs.add(id);
+    else tabs.delete(id);
+    handlers.onTabsChange(Array.from(tabs));
+  };
+
+  channel.onmessage = ({ data }: MessageEvent<TabMessage>) => {
+    if (!data || data.tabId === tabId) return;
+
+    switch (data.type) {
+      case "hello":
+        post(() => ({ type: "here", tabId }));
+        setTab(data.tabId, true);
+        break;
+      case "here":
+        setTab(data.tabId, true);
+        break;
+      case "bye":
+        setTab(data.tabId, false);
+        break;
+      case "logs":
+        setTab(data.tabId, true);
+        handlers.onLogs(data.tabId, data.logs);
+        break;
+    }
+  };
+
+  const sayBye = () => post(() => ({ type: "bye", tabId }));
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", sayBye);
+  }
+  post(() => ({ type: "hello", tabId }));
+
+  return {
+    tabId,
+    shareLogs: (logs) => {
+      if (logs.length === 0) return;
+      post(() => ({ type: "logs", tabId, logs: toJsonLogs(logs) }));
+    },
+    close: () => {
+      if (typeof window !== "undefined") {
+        window.removeEventListener("pagehide", sayBye);
+      }
+      sayBye();
+      channel.close();
+    },
+  };
+};
@@ -0,0 +1,149 @@
+import type {
+  LogEntry,
+  MessageSource,
+  ThroughputBucket,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// THROUGHPUT
+// ============================================================================
+
+export const THROUGHPUT_SOURCES: readonly MessageSource[] = [
+  "broadcast",
+  "database",
+  "presence",
+  "system",
+];
+
+export const THROUGHPUT_WINDOWS = [60000, 300000, 900000] as const;
+
+// Points drawn per chart, whatever the window; each point covers
+// window / THROUGHPUT_POINTS.
+export const THROUGHPUT_POINTS = 60;
+
+const MAX_WINDOW_SECONDS =
+  THROUGHPUT_WINDOWS[THROUGHPUT_WINDOWS.length - 1] / 1000;
+
+const EMPTY_COUNTS: Readonly<Record<MessageSource, number>> = {
+  broadcast: 0,
+  database: 0,
+  presence: 0,
+  system: 0,
+};
+
+// Self-test broadcasts count as broadcast traffic.
+const toMessageSource = (source: LogEntry["source"]): MessageSource =>
+  source === "self" ? "broadcast" : source;
+
+// Counts each message into its second and drops seconds older than the
+// longest window. The buckets are copied once per call.
+export const addToThroughput = (
+  buckets: readonly ThroughputBucket[],
+  messages: readonly Pick<LogEntry, "receivedAt" | "source">[]
+): readonly ThroughputBucket[] => {
+  if (messages.length === 0) return buckets;
+
+  const next = [...buckets];
+  messages.forEach(({ receivedAt, source }) => {
+    const second = Math.floor(receivedAt / 1000);
+    const key = toMessageSource(source);
+
+    let index = next.length - 1;
+    while (index >= 0 && next[index].second > second) index -= 1;
+
+    if (index >= 0 && next[index].second === second) {
+      const bucket = next[index];
+      next[index] = {
+        second,
+        counts: { ...bucket.counts, [key]: bucket.counts[key] + 1 },
+      };
+    } else {
+      next.splice(index + 1, 0, {
+        second,
+        counts: { ...EMPTY_COUNTS, [key]: 1 },
+      });
+    }
+  });
+
+  const oldest = next[next.length - 1].second - MAX_WINDOW_SECONDS;
+  const firstKept = next.findIndex((bucket) => bucket.second > oldest);
+  return firstKept > 0 ? next.slice(firstKept) : next;
+};
+
+export interface ThroughputPoint {
+  // Epoch milliseconds at the start of the point.
+  readonly start: number;
+  // Messages per second, averaged over the point.
+  readonly rates: Readonly<Record<MessageSource, number>>;
+  readonly total: number;
+}
+
+export interface ThroughputSeries {
+  readonly points: readonly ThroughputPoint[];
+  readonly secondsPerPoint: number;
+  // Index of the busiest point, or null when the window was quiet.
+  readonly peakIndex: number | null;
+  readonly totals: Readonly<Record<MessageSource, number>>;
+}
+
+// Spreads the buckets of the last `windowMs` over THROUGHPUT_POINTS evenly
+// sized points ending at `now`. Only `sources` are charted and count towards
+// the peak; the totals cover every source.
+export const buildThroughputSeries = (
+  buckets: readonly ThroughputBucket[],
+  now: number,
+  windowMs: number,
+  sources: readonly MessageSource[] = THROUGHPUT_SOURCES
+): ThroughputSeries => {
+  const secondsPerPoint = Math.max(
+    1,
+    Math.round(windowMs / 1000 / THROUGHPUT_POINTS)
+  );
+  const lastSecond = Math.floor(now / 1000);
+  const firstSecond = lastSecond - secondsPerPoint * THROUGHPUT_POINTS + 1;
+
+  const counts = Array.from({ length: THROUGHPUT_POINTS }, () => ({
+    ...EMPTY_COUNTS,
+  }));
+  const totals = { ...EMPTY_COUNTS };
+
+  buckets.forEach((bucket) => {
+    if (bucket.second < firstSecond || bucket.second > lastSecond) return;
+    const index = Math.floor((bucket.second - firstSecond) / secondsPerPoint);
+    THROUGHPUT_SOURCES.forEach((source) => {
+      totals[source] += bucket.counts[source];
+    });
+    sources.forEach((source) => {
+      counts[index][source] += bucket.counts[source];
+    });
+  });
+
+  let peakIndex: number | null = null;
+  let peakTotal = 0;
+  const points = counts.map((pointCounts, index) => {
+    const rates = { ...EMPTY_COUNTS };
+    let total = 0;
+    sources.forEach((source) => {
+      rates[source] = pointCounts[source] / secondsPerPoint;
+      total += rates[source];
+    });
+    if (total > peakTotal) {
+      peakIndex = index;
+      peakTotal = total;
+    }
+    return {
+      start: (firstSecond + index * secondsPerPoint) * 1000,
+      rates,
+      total,
+    };
+  });
+
+  return { points, secondsPerPoint, peakIndex, totals };
+};
+
+export const formatRate = (rate: number): string =>
+  rate === 0
+    ? "0/s"
+    : rate < 10
+    ? `${rate.toFixed(rate < 1 ? 2 : 1)}/s`
+    : `${Math.round(rate)}/s`;
@@ -0,0 +1,490 @@
+// ============================================================================
+// TYPES & INTERFACES - STRICT TYPESCRIPT
+// ============================================================================
+
+export interface SupabaseSession {
+  access_token: string;
+  // Epoch seconds.
+  expires_at?: number;
+  user: { id: string; email?: string };
+}
+
+export type AuthChangeEvent =
+  | "INITIAL_SESSION"
+  | "SIGNED_IN"
+  | "SIGNED_OUT"
+  | "TOKEN_REFRESHED"
+  | "USER_UPDATED"
+  | "PASSWORD_RECOVERY"
+  | "MFA_CHALLENGE_VERIFIED";
+
+export interface AuthResponse {
+  data: { session: SupabaseSession | null };
+  error?: Error;
+}
+
+// A listener registered with `channel.on()`, as stored by supabase-js.
+export interface RealtimeChannelBinding {
+  readonly type: string;
+  readonly filter: Record<string, unknown>;
+  callback: (payload: unknown, ref?: string) => void;
+  readonly id?: string;
+}
+
+export interface RealtimeChannel {
+  // Set on supabase-js channels; read when discovering the app's channels.
+  readonly topic?: string;
+  readonly state?: string;
+  readonly bindings?: Record<string, RealtimeChannelBinding[]>;
+  subscribe(callback: (status: string, error?: Error) => void): RealtimeChannel;
+  // Resolves once the server confirms the leave; older clients return nothing.
+  unsubscribe(): Promise<"ok" | "timed out" | "error"> | void;
+  on(
+    event: string,
+    config: any,
+    callback: (payload: any) => void
+  ): RealtimeChannel;
+  send(payload: {
+    type: string;
+    event: string;
+    payload: unknown;
+  }): Promise<"ok" | "timed out" | "error">;
+  presenceState(): Record<string, PresenceMeta[]>;
+  track(
+    payload: Record<string, unknown>
+  ): Promise<"ok" | "timed out" | "error">;
+  untrack(): Promise<"ok" | "timed out" | "error">;
+}
+
+// One tracked presence of a key, as returned by `presenceState()`.
+export interface PresenceMeta {
+  readonly presence_ref: string;
+  readonly [key: string]: unknown;
+}
+
+export interface ChannelPresence {
+  readonly state: Readonly<Record<string, readonly PresenceMeta[]>>;
+  // When the devtools first saw each presence_ref, in epoch milliseconds.
+  readonly joinedAt: Readonly<Record<string, number>>;
+  readonly updatedAt: number;
+  // What the devtools itself tracks on this channel, if anything.
+  readonly tracked: Record<string, unknown> | null;
+}
+
+export interface RealtimeChannelOptions {
+  config?: {
+    broadcast?: { self?: boolean; ack?: boolean };
+  };
+}
+
+// The serializer hooks of the realtime-js client, used to see raw frames.
+export interface RealtimeSocket {
+  encode?: (message: unknown, callback: (encoded: unknown) => void) => void;
+  decode?: (raw: unknown, callback: (message: unknown) => void) => void;
+  // Newer realtime-js clients wrap the Phoenix socket in an adapter and only
+  // forward reads of its fields.
+  socketAdapter?: { socket?: RealtimeSocket };
+  heartbeatCallback?: (status: string, latency?: number) => void;
+  heartbeatIntervalMs?: number;
+  connectionState?(): string;
+  // Phoenix sockets register state callbacks by ref...
+  onOpen?(callback: () => void): string;
+  onClose?(callback: (event?: unknown) => void): string;
+  onError?(callback: (error?: unknown) => void): string;
+  off?(refs: string[]): void;
+  // ...older realtime-js clients keep plain callback lists.
+  stateChangeCallbacks?: Record<string, unknown[]>;
+}
+
+export interface SupabaseClient {
+  channel(name: string, options?: RealtimeChannelOptions): RealtimeChannel;
+  getChannels?(): RealtimeChannel[];
+  realtime?: RealtimeSocket;
+  auth: {
+    getSession(): Promise<AuthResponse>;
+    onAuthStateChange(
+      callback: (
+        event: AuthChangeEvent,
+        session: SupabaseSession | null
+      ) => void
+    ): { data: { subscription: { unsubscribe(): void } } };
+  };
+}
+
+export interface LogEntry {
+  readonly id: number;
+  readonly timestamp: string;
+  // Epoch milliseconds when the event reached the devtools. `timestamp` is
+  // only its display form.
+  readonly receivedAt: number;
+  readonly type: "info" | "success" | "error" | "warning";
+  readonly source: "broadcast" | "database" | "presence" | "system" | "self";
+  readonly message: string;
+  readonly details?: Record<string, unknown>;
+  readonly channelName?: string;
+  readonly event?: string;
+  // Label of the postgres_changes binding that delivered a database event.
+  readonly binding?: string;
+  // Serialized size in bytes of a sent or received message; unset for system
+  // entries.
+  readonly size?: number;
+  readonly replayed?: boolean;
+  // The DevTools tab that captured the entry; unset for this tab's own.
+  readonly tabId?: string;
+}
+
+// A fixed-size ring of the newest logs. Read it with the helpers in
+// log-buffer, e.g. toLogArray.
+export interface LogBuffer {
+  readonly capacity: number;
+  readonly size: number;
+  // Entries pushed since the buffer was created.
+  readonly pushed: number;
+  // The slots, in fixed-size chunks.
+  readonly chunks: readonly (readonly (LogEntry | undefined)[])[];
+}
+
+// A log as it entered the ADD_LOG pipeline, kept so it can be fed back in.
+export type RecordedEvent = Omit<LogEntry, "id" | "timestamp" | "replayed">;
+
+// Enriches an entry before it is logged, or drops it by returning null.
+export type LogTransformer = (entry: RecordedEvent) => RecordedEvent | null;
+
+export interface ActiveRecording {
+  readonly startedAt: number;
+  // Appended to in place as entries come in; a state covers the first
+  // `eventCount` of them.
+  readonly events: RecordedEvent[];
+  readonly eventCount: number;
+}
+
+export type ChannelStatus =
+  | "idle"
+  | "joining"
+  | "subscribed"
+  | "error"
+  | "closed"
+  | "timed_out"
+  | "reconnecting";
+
+// The reconnect attempt a dropped channel is waiting for or running.
+export interface ChannelReconnect {
+  readonly attempt: number;
+  readonly maxAttempts: number;
+  // Null while the attempt itself is joining.
+  readonly nextAttemptAt: number | null;
+}
+
+export interface ChannelMonitorState {
+  readonly name: string;
+  readonly status: ChannelStatus;
+  readonly messageCount: number;
+  readonly lastActivity: Date | null;
+  readonly subscribedAt: Date | null;
+  readonly reconnect: ChannelReconnect | null;
+  // Finished reconnect cycles, whatever their outcome.
+  readonly reconnectCount: number;
+}
+
+// One drop of a channel and the attempts it took to recover, or not.
+export interface ReconnectCycle {
+  readonly channelName: string;
+  readonly reason: string;
+  readonly startedAt: number;
+  readonly endedAt: number;
+  readonly attempts: number;
+  readonly outcome: "recovered" | "failed" | "cancelled";
+}
+
+export interface PostgresBinding {
+  readonly id: string;
+  readonly label: string;
+  readonly schema: string;
+  readonly table: string;
+  readonly event: "*" | "INSERT" | "UPDATE" | "DELETE";
+  readonly filter: string;
+}
+
+// `key` masks every property with that name at any depth, `path` the value at
+// a dot path into the details, `pattern` every match of a regex in strings.
+export interface RedactionRule {
+  readonly id: string;
+  readonly kind: "key" | "path" | "pattern";
+  readonly value: string;
+}
+
+// What happens to broadcast, database and presence events beyond
+// `maxEventsPerBatch` in one batch. System entries are never dropped.
+export type BackpressurePolicy =
+  | "none"
+  | "sample"
+  | "drop-oldest"
+  | "drop-events";
+
+export interface DevToolsConfig {
+  readonly channels: readonly string[];
+  readonly enableBroadcast: boolean;
+  readonly enableDatabase: boolean;
+  readonly postgresBindings: readonly PostgresBinding[];
+  readonly enablePresence: boolean;
+  readonly enableSelfTestBroadcast: boolean;
+  readonly showSystemLogs: boolean;
+  readonly maxLogs: number;
+  readonly autoScroll: boolean;
+  readonly latencyProbeInterval: number;
+  readonly autoReconnect: boolean;
+  readonly reconnectMaxAttempts: number;
+  readonly reconnectBaseDelay: number;
+  readonly throughputWindow: number;
+  // Bytes. Broadcast and postgres_changes payloads close to it are flagged.
+  readonly payloadSizeLimit: number;
+  readonly redactionRules: readonly RedactionRule[];
+  // Incoming events are logged together once per animation frame, or every
+  // `batchInterval` ms.
+  readonly batchMode: "frame" | "interval";
+  readonly batchInterval: number;
+  readonly backpressure: BackpressurePolicy;
+  readonly maxEventsPerBatch: number;
+  // Dropped by the "drop-events" policy while a batch is over the limit.
+  readonly droppedEventNames: readonly string[];
+  // Logs are also written to IndexedDB, one session per page load, keeping the
+  // newest `sessionLimit` sessions.
+  readonly persistLogs: boolean;
+  readonly sessionLimit: number;
+  // Entries are shared with DevTools in other tabs of the origin, and theirs
+  // merged into the Monitor timeline.
+  readonly shareAcrossTabs: boolean;
+}
+
+export interface ConnectionStats {
+  readonly isConnected: boolean;
+  readonly totalMessages: number;
+  readonly lastActivity: Date | null;
+  // Milliseconds the realtime socket has been open in total, counted up to its
+  // last state change.
+  readonly uptime: number;
+  readonly messageTypes: {
+    readonly broadcast: number;
+    readonly database: number;
+    readonly presence: number;
+    readonly system: number;
+  };
+}
+
+// A previously exported capture opened for read-only inspection.
+export interface OfflineCapture {
+  readonly fileName: string;
+  readonly exportedAt: string;
+  readonly logs: readonly LogEntry[];
+  readonly stats: ConnectionStats;
+  readonly config: DevToolsConfig;
+}
+
+// One latency probe broadcast. `ackMs` is send → server ack, `selfMs` is send →
+// the broadcast coming back to this client; null when it never arrived.
+export interface LatencySample {
+  readonly seq: number;
+  readonly sentAt: number;
+  readonly ackMs: number | null;
+  readonly selfMs: number | null;
+  readonly result: "ok" | "timed out" | "error";
+}
+
+export interface LatencyProbeState {
+  readonly running: boolean;
+  // Oldest first.
+  readonly samples: readonly LatencySample[];
+}
+
+export interface AuthInfo {
+  readonly lastEvent: AuthChangeEvent | null;
+  readonly lastEventAt: number | null;
+  // When a new access token was last seen, which supabase-js hands on to the
+  // realtime connection.
+  readonly accessTokenUpdatedAt: number | null;
+  // Epoch milliseconds.
+  readonly accessTokenExpiresAt: number | null;
+}
+
+// One Phoenix protocol message as it crossed the socket.
+export interface WireFrame {
+  readonly id: number;
+  readonly direction: "in" | "out";
+  readonly at: number;
+  readonly topic: string;
+  readonly event: string;
+  readonly ref: string | null;
+  readonly joinRef: string | null;
+  // Encoded size in bytes.
+  readonly size: number;
+  readonly payload: unknown;
+}
+
+export interface WireState {
+  readonly capturing: boolean;
+  // Newest first.
+  readonly frames: readonly WireFrame[];
+}
+
+export type MessageSource = keyof ConnectionStats["messageTypes"];
+
+// Messages received during one wall-clock second, by source.
+export interface ThroughputBucket {
+  // Epoch seconds.
+  readonly second: number;
+  readonly counts: Readonly<Record<MessageSource, number>>;
+}
+
+export interface PayloadSizeStats {
+  readonly count: number;
+  readonly totalBytes: number;
+  readonly maxBytes: number;
+}
+
+export interface PayloadOffender {
+  readonly logId: number;
+  readonly size: number;
+  readonly source: LogEntry["source"];
+  readonly event: string | null;
+  // `schema.table` of a database event.
+  readonly table: string | null;
+  readonly channelName: string | null;
+  readonly receivedAt: number;
+}
+
+export interface PayloadSizeState {
+  // Keyed by event name.
+  readonly byEvent: Readonly<Record<string, PayloadSizeStats>>;
+  // Keyed by `schema.table`.
+  readonly byTable: Readonly<Record<string, PayloadSizeStats>>;
+  // Largest first.
+  readonly largest: readonly PayloadOffender[];
+}
+
+export type RowEventType = "INSERT" | "UPDATE" | "DELETE";
+
+export interface RowEvent {
+  readonly logId: number;
+  readonly eventType: RowEventType;
+  readonly receivedAt: number;
+  readonly channelName: string | null;
+  readonly newRow: Readonly<Record<string, unknown>> | null;
+  readonly oldRow: Readonly<Record<string, unknown>> | null;
+}
+
+export interface RowHistory {
+  // `schema.table` plus the formatted primary key.
+  readonly id: string;
+  readonly table: string;
+  readonly key: Readonly<Record<string, unknown>>;
+  // Oldest first.
+  readonly events: readonly RowEvent[];
+  readonly lastAt: number;
+}
+
+export interface RowHistoryState {
+  readonly rows: Readonly<Record<string, RowHistory>>;
+  // Primary key columns per `schema.table`, learned from identity-only `old`
+  // records.
+  readonly keyColumns: Readonly<Record<string, readonly string[]>>;
+  // Events per `schema.table` whose row had no recognizable primary key.
+  readonly unkeyed: Readonly<Record<string, number>>;
+}
+
+export type SocketState = "connecting" | "open" | "closing" | "closed";
+
+export interface SocketStateChange {
+  readonly state: SocketState;
+  readonly at: number;
+}
+
+// One heartbeat from send to settle. `rttMs` is null unless the server replied.
+// "timeout" is a missed heartbeat; "disconnected" means the socket was down
+// when one was due.
+export interface HeartbeatSample {
+  readonly sentAt: number;
+  readonly rttMs: number | null;
+  readonly result: "ok" | "error" | "timeout" | "disconnected";
+}
+
+export interface SocketEvent {
+  readonly type: "open" | "close" | "error";
+  readonly at: number;
+  // WebSocket close code, reason and cleanliness; null for open and error.
+  readonly code: number | null;
+  readonly reason: string | null;
+  readonly wasClean: boolean | null;
+}
+
+export interface SocketHealth {
+  // False when the client exposes none of the socket hooks.
+  readonly supported: boolean;
+  readonly heartbeatIntervalMs: number | null;
+  readonly state: SocketState | null;
+  // Oldest first, trimmed to the uptime window and the change before it.
+  readonly stateChanges: readonly SocketStateChange[];
+  readonly pendingHeartbeatAt: number | null;
+  // Oldest first.
+  readonly heartbeats: readonly HeartbeatSample[];
+  readonly missedHeartbeats: number;
+  // Newest first.
+  readonly events: readonly SocketEvent[];
+}
+
+export interface DroppedEvents {
+  readonly total: number;
+  // By event name, or by source for events without one.
+  readonly byEvent: Readonly<Record<string, number>>;
+}
+
+export interface DevToolsState {
+  readonly logs: LogBuffer;
+  readonly stats: ConnectionStats;
+  readonly channels: Readonly<Record<string, ChannelMonitorState>>;
+  readonly presence: Readonly<Record<string, ChannelPresence>>;
+  readonly latency: LatencyProbeState;
+  // Newest first.
+  readonly reconnectCycles: readonly ReconnectCycle[];
+  readonly wire: WireState;
+  readonly socket: SocketHealth;
+  // Oldest first, only seconds with traffic, over the longest chart window.
+  readonly throughput: readonly ThroughputBucket[];
+  readonly payloadSizes: PayloadSizeState;
+  readonly rowHistory: RowHistoryState;
+  // Shed by the backpressure policy since the logs were last cleared.
+  readonly dropped: DroppedEvents;
+  readonly expandedLogs: ReadonlySet<number>;
+  readonly isMonitoring: boolean;
+  readonly isAuthenticated: boolean;
+  readonly authError: string | null;
+  readonly authInfo: AuthInfo;
+  readonly offlineCapture: OfflineCapture | null;
+  readonly recording: ActiveRecording | null;
+}
+
+// An entry logged by the host app through the imperative API.
+export interface DevToolsLogInput {
+  readonly message: string;
+  // Defaults to "info".
+  readonly type?: LogEntry["type"];
+  // Defaults to "system".
+  readonly source?: LogEntry["source"];
+  readonly details?: Record<string, unknown>;
+  readonly event?: string;
+  readonly channelName?: string;
+}
+
+// Controls exposed to the host app through the component's ref.
+export interface SupabaseDevToolsHandle {
+  open(): void;
+  close(): void;
+  // Adds the channel to the config if needed and subscribes to it. Without
+  // a channel, starts every configured channel.
+  startMonitoring(channelName?: string): void;
+  // Without a channel, stops every monitored channel.
+  stopMonitoring(channelName?: string): void;
+  log(entry: DevToolsLogInput): void;
+  clear(): void;
+  // Newest first; always the live logs, even while an export is loaded.
+  getLogs(): readonly LogEntry[];
+}
@@ -0,0 +1,154 @@
+import type {
+  RealtimeSocket,
+  WireFrame,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+
+// ============================================================================
+// WIRE CAPTURE
+// ============================================================================
+
+export const MAX_WIRE_FRAMES = 500;
+
+// Frame events worth a filter button, in protocol order.
+export const WIRE_EVENTS = [
+  "phx_join",
+  "phx_reply",
+  "phx_leave",
+  "phx_close",
+  "phx_error",
+  "heartbeat",
+  "access_token",
+  "broadcast",
+  "presence",
+  "presence_state",
+  "presence_diff",
+  "postgres_changes",
+  "system",
+] as const;
+
+let frameIdCounter = 0;
+
+const encoder = typeof TextEncoder !== "undefined" ? new TextEncoder() : null;
+
+const getSize = (raw: unknown): number => {
+  if (typeof raw === "string") {
+    return encoder ? encoder.encode(raw).length : raw.length;
+  }
+  if (raw instanceof ArrayBuffer) return raw.byteLength;
+  if (ArrayBuffer.isView(raw)) return raw.byteLength;
+  if (typeof Blob !== "undefined" && raw instanceof Blob) return raw.size;
+  return 0;
+};
+
+const toRef = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value);
+
+const toFrame = (
+  direction: WireFrame["direction"],
+  raw: unknown,
+  message: unknown
+): WireFrame => {
+  const { topic, event, ref, join_ref, payload } = (message ?? {}) as Record<
+    string,
+    unknown
+  >;
+
+  frameIdCounter += 1;
+  return {
+    id: frameIdCounter,
+    direction,
+    at: Date.now(),
+    topic: typeof topic === "string" ? topic : "",
+    event: typeof event === "string" ? event : "unknown",
+    ref: toRef(ref),
+    joinRef: toRef(join_ref),
+    size: getSize(raw),
+    payload,
+  };
+};
+
+// The object whose `encode` and `decode` the connection actually calls.
+export const resolveSocket = (
+  realtime: RealtimeSocket | undefined
+): RealtimeSocket | undefined => realtime?.socketAdapter?.socket ?? realtime;
+
+export const canTapWire = (realtime: RealtimeSocket | undefined): boolean => {
+  const socket = resolveSocket(realtime);
+  return (
+    typeof socket?.encode === "function" && typeof socket?.decode === "function"
+  );
+};
+
+// realtime-js runs every outgoing message through `encode` and every incoming
+// one through `decode`, whichever WebSocket is current. Wrapping both sees the
+// frames on their way through, with their encoded size, without touching the
+// connection. Returns null when the client does not expose the hooks, or a
+// function that puts the originals back.
+export const attachWireTap = (
+  realtime: RealtimeSocket | undefined,
+  onFrame: (frame: WireFrame) => void
+): (() => void) | null => {
+  const socket = resolveSocket(realtime);
+  const originalEncode = socket?.encode;
+  const originalDecode = socket?.decode;
+  if (
+    !socket ||
+    typeof originalEncode !== "function" ||
+    typeof originalDecode !== "function"
+  ) {
+    return null;
+  }
+
+  const report = (
+    direction: WireFrame["direction"],
+    raw: unknown,
+    message: unknown
+  ) => {
+    try {
+      onFrame(toFrame(direction, raw, message));
+    } catch (error) {
+      console.warn("SupabaseDevTools: Wire capture failed", error);
+    }
+  };
+
+  const encode: RealtimeSocket["encode"] = (message, callback) =>
+    originalEncode.call(socket, message, (encoded) => {
+      report("out", encoded, message);
+      callback(encoded);
+    });
+
+  const decode: RealtimeSocket["decode"] = (raw, callback) =>
+    originalDecode.call(socket, raw, (message) => {
+      report("in", raw, message);
+      callback(message);
+    });
+
+  try {
+    socket.encode = encode;
+    socket.decode = decode;
+  } catch {
+    // Read-only hooks; leave the socket as it was.
+    if (socket.encode === encode) socket.encode = originalEncode;
+    return null;
+  }
+
+  return () => {
+    // Leave the hooks alone if something else replaced them since.
+    if (socket.encode === encode) socket.encode = originalEncode;
+    if (socket.decode === decode) socket.decode = originalDecode;
+  };
+};
+
+// A reply's status tells whether a join, leave or token push was accepted.
+export const getReplyStatus = (frame: WireFrame): string | null => {
+  if (frame.event !== "phx_reply" || !frame.payload) return null;
+  const { status } = frame.payload as { status?: unknown };
+  return typeof status === "string" ? status : null;
+};
+
+export const formatBytes = (size: number): string =>
+  size < 1024
+    ? `${size} B`
+    : size < 1024 * 1024
+    ? `${(size / 1024).toFixed(1)} KB`
+    : `${(size / (1024 * 1024)).toFixed(1)} MB`;
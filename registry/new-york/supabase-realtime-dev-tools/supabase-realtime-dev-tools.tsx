@@ -4,8 +4,12 @@ import React, {
   useRef,
   useCallback,
   useMemo,
-  useReducer,
+  useSyncExternalStore,
+  useImperativeHandle,
+  forwardRef,
   memo,
+  type ComponentType,
+  type ForwardedRef,
 } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -36,89 +40,137 @@ import {
   Activity,
   Settings,
   Monitor,
+  Plus,
+  Search,
+  Download,
+  Upload,
+  FileText,
+  Circle,
+  Pause,
+  SkipForward,
+  FolderOpen,
+  Save,
+  Radar,
+  Cable,
+  History,
 } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import type {
+  ChannelStatus,
+  DevToolsConfig,
+  LogEntry,
+  SupabaseClient,
+  SupabaseDevToolsHandle,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/types";
+import {
+  getLogQueryHighlights,
+  matchesLogQuery,
+  parseLogQuery,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-query";
+import {
+  createCapture,
+  downloadCapture,
+  parseCapture,
+  restoreStats,
+  type CaptureFileFormat,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-export";
+import {
+  REPLAY_SPEEDS,
+  createRecording,
+  createReplayController,
+  downloadRecording,
+  parseRecording,
+  type ReplayController,
+  type ReplayProgress,
+  type SessionRecording,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/session-replay";
+import {
+  RECONNECT_MAX_DELAY,
+  summarizeReconnects,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/reconnect";
+import {
+  describeChannel,
+  type DiscoveredChannel,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/channel-tap";
+import {
+  canTapWire,
+  formatBytes,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/wire-tap";
+import { getUpdateRows } from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-diff";
+import {
+  EMPTY_ROW_HISTORY,
+  addRowEvents,
+  getRowHistoryId,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/row-history";
+import {
+  DEFAULT_PAYLOAD_SIZE_LIMIT,
+  EMPTY_PAYLOAD_SIZES,
+  PAYLOAD_WARN_RATIO,
+  addPayloadSizes,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/payload-size";
+import {
+  DEFAULT_CONFIG,
+  createRealtimeInspector,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/realtime-inspector";
+import BroadcastComposer from "@/registry/new-york/supabase-realtime-dev-tools/components/broadcast-composer";
+import PostgresBindingsEditor from "@/registry/new-york/supabase-realtime-dev-tools/components/postgres-bindings-editor";
+import RedactionRulesEditor from "@/registry/new-york/supabase-realtime-dev-tools/components/redaction-rules-editor";
+import PresenceInspector from "@/registry/new-york/supabase-realtime-dev-tools/components/presence-inspector";
+import LatencyPanel from "@/registry/new-york/supabase-realtime-dev-tools/components/latency-panel";
+import AppChannelsPanel from "@/registry/new-york/supabase-realtime-dev-tools/components/app-channels-panel";
+import WireInspector from "@/registry/new-york/supabase-realtime-dev-tools/components/wire-inspector";
+import SocketHealthPanel from "@/registry/new-york/supabase-realtime-dev-tools/components/socket-health-panel";
+import ThroughputChart from "@/registry/new-york/supabase-realtime-dev-tools/components/throughput-chart";
+import PayloadSizePanel from "@/registry/new-york/supabase-realtime-dev-tools/components/payload-size-panel";
+import {
+  BACKPRESSURE_POLICIES,
+  formatDroppedEvents,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/backpressure";
+import {
+  MAX_LOG_CAPACITY,
+  MIN_LOG_CAPACITY,
+  clampLogCapacity,
+  createLogBuffer,
+  filterLogBuffer,
+  getLogsAfter,
+  toLogArray,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-buffer";
+import {
+  MAX_SESSION_LIMIT,
+  clampSessionLimit,
+  getSessionStats,
+  isLogStoreSupported,
+  openLogStore,
+  type LogStore,
+  type StoredSession,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/log-store";
+import {
+  createTabId,
+  createTabSync,
+  isTabSyncSupported,
+  type TabSync,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/tab-sync";
+import { createRedactor } from "@/registry/new-york/supabase-realtime-dev-tools/lib/redaction";
+import {
+  findLogRenderer,
+  getPluginTabs,
+  getPluginTransformers,
+  type DevToolsPlugin,
+  type LogRendererProps,
+} from "@/registry/new-york/supabase-realtime-dev-tools/lib/plugins";
+import RowDiffView from "@/registry/new-york/supabase-realtime-dev-tools/components/row-diff-view";
+import RowHistoryInspector from "@/registry/new-york/supabase-realtime-dev-tools/components/row-history-inspector";
+import VirtualLogList from "@/registry/new-york/supabase-realtime-dev-tools/components/virtual-log-list";
+import SessionBrowser from "@/registry/new-york/supabase-realtime-dev-tools/components/session-browser";
 
 // ============================================================================
-// TYPES & INTERFACES - STRICT TYPESCRIPT
+// COMPONENT PROPS
 // ============================================================================
 
-interface SupabaseSession {
-  access_token: string;
-  user: { id: string };
-}
-
-interface AuthResponse {
-  data: { session: SupabaseSession | null };
-  error?: Error;
-}
-
-interface RealtimeChannel {
-  subscribe(callback: (status: string, error?: Error) => void): RealtimeChannel;
-  unsubscribe(): void;
-  on(
-    event: string,
-    config: any,
-    callback: (payload: any) => void
-  ): RealtimeChannel;
-  send(payload: { type: string; event: string; payload: any }): Promise<void>;
-}
-
-interface SupabaseClient {
-  channel(name: string): RealtimeChannel;
-  auth: {
-    getSession(): Promise<AuthResponse>;
-  };
-}
-
-interface LogEntry {
-  readonly id: number;
-  readonly timestamp: string;
-  readonly type: "info" | "success" | "error" | "warning";
-  readonly source: "broadcast" | "database" | "presence" | "system" | "self";
-  readonly message: string;
-  readonly details?: Record<string, unknown>;
-  readonly channelName: string;
-  readonly event?: string;
-}
-
-interface DevToolsConfig {
-  readonly channelName: string;
-  readonly enableBroadcast: boolean;
-  readonly enableDatabase: boolean;
-  readonly enablePresence: boolean;
-  readonly enableSelfTestBroadcast: boolean;
-  readonly showSystemLogs: boolean;
-  readonly maxLogs: number;
-  readonly autoScroll: boolean;
-}
-
-interface ConnectionStats {
-  readonly isConnected: boolean;
-  readonly totalMessages: number;
-  readonly lastActivity: Date | null;
-  readonly uptime: number;
-  readonly messageTypes: {
-    readonly broadcast: number;
-    readonly database: number;
-    readonly presence: number;
-    readonly system: number;
-  };
-}
-
-interface DevToolsState {
-  readonly logs: readonly LogEntry[];
-  readonly stats: ConnectionStats;
-  readonly expandedLogs: ReadonlySet<number>;
-  readonly isMonitoring: boolean;
-  readonly isAuthenticated: boolean;
-  readonly authError: string | null;
-}
-
 interface SupabaseDevToolsProps {
   readonly client?: unknown | SupabaseClient;
   readonly position?: "bottom-right" | "bottom-left" | "top-right" | "top-left";
@@ -127,6 +179,8 @@ interface SupabaseDevToolsProps {
   readonly keyboardShortcut?: string;
   readonly autoShow?: boolean;
   readonly maxLogs?: number;
+  // Keep the array stable across renders, e.g. define it at module level.
+  readonly plugins?: readonly DevToolsPlugin[];
 }
 
 // ============================================================================
@@ -165,108 +219,34 @@ const CONFIG = {
       bgColor: "bg-green-500",
     },
   },
-};
-
-// ============================================================================
-// ACTIONS & REDUCER - PERFORMANCE OPTIMIZED
-// ============================================================================
-
-type DevToolsAction =
-  | {
-      type: "ADD_LOG";
-      payload: Omit<LogEntry, "id" | "timestamp" | "channelName">;
-    }
-  | { type: "CLEAR_LOGS" }
-  | { type: "TOGGLE_LOG_DETAILS"; payload: number }
-  | { type: "SET_MONITORING"; payload: boolean }
-  | {
-      type: "SET_AUTH_STATE";
-      payload: { isAuthenticated: boolean; authError: string | null };
-    }
-  | { type: "UPDATE_STATS"; payload: Partial<ConnectionStats> };
-
-let logIdCounter = 0;
-
-const devToolsReducer = (
-  state: DevToolsState,
-  action: DevToolsAction
-): DevToolsState => {
-  switch (action.type) {
-    case "ADD_LOG": {
-      logIdCounter += 1;
-      const newLog: LogEntry = {
-        ...action.payload,
-        id: logIdCounter,
-        timestamp: new Date().toLocaleTimeString("en-US", {
-          hour12: false,
-          hour: "2-digit",
-          minute: "2-digit",
-          second: "2-digit",
-          fractionalSecondDigits: 3,
-        }),
-        channelName: state.stats.isConnected ? "connected" : "disconnected",
-      };
-
-      const newStats: ConnectionStats = {
-        ...state.stats,
-        totalMessages: state.stats.totalMessages + 1,
-        lastActivity: new Date(),
-        messageTypes: {
-          ...state.stats.messageTypes,
-          [action.payload.source]:
-            state.stats.messageTypes[
-              action.payload.source as keyof ConnectionStats["messageTypes"]
-            ] + 1,
-        },
-      };
-
-      return {
-        ...state,
-        logs: [newLog, ...state.logs].slice(0, 200) as readonly LogEntry[],
-        stats: newStats,
-      };
-    }
-
-    case "CLEAR_LOGS":
-      return {
-        ...state,
-        logs: [],
-        expandedLogs: new Set(),
-        stats: {
-          ...state.stats,
-          totalMessages: 0,
-          messageTypes: { broadcast: 0, database: 0, presence: 0, system: 0 },
-        },
-      };
-
-    case "TOGGLE_LOG_DETAILS":
-      const newExpanded = new Set(state.expandedLogs);
-      if (newExpanded.has(action.payload)) {
-        newExpanded.delete(action.payload);
-      } else {
-        newExpanded.add(action.payload);
-      }
-      return { ...state, expandedLogs: newExpanded };
-
-    case "SET_MONITORING":
-      return { ...state, isMonitoring: action.payload };
-
-    case "SET_AUTH_STATE":
-      return {
-        ...state,
-        isAuthenticated: action.payload.isAuthenticated,
-        authError: action.payload.authError,
-      };
-
-    case "UPDATE_STATS":
-      return {
-        ...state,
-        stats: { ...state.stats, ...action.payload },
-      };
-
-    default:
-      return state;
-  }
+  channelStatus: {
+    idle: { text: "Idle", color: "text-gray-500", bgColor: "bg-gray-400" },
+    joining: {
+      text: "Joining",
+      color: "text-yellow-600",
+      bgColor: "bg-yellow-500",
+    },
+    subscribed: {
+      text: "Subscribed",
+      color: "text-green-500",
+      bgColor: "bg-green-500",
+    },
+    error: { text: "Error", color: "text-red-500", bgColor: "bg-red-500" },
+    closed: { text: "Closed", color: "text-gray-500", bgColor: "bg-gray-500" },
+    timed_out: {
+      text: "Timed Out",
+      color: "text-orange-500",
+      bgColor: "bg-orange-500",
+    },
+    reconnecting: {
+      text: "Reconnecting",
+      color: "text-yellow-600",
+      bgColor: "bg-yellow-500",
+    },
+  } satisfies Record<
+    ChannelStatus,
+    { text: string; color: string; bgColor: string }
+  >,
 };
 
 // ============================================================================
@@ -274,52 +254,38 @@ const devToolsReducer = (
 // ============================================================================
 
 const STORAGE_KEY = "supabase-devtools-config";
-const DEFAULT_CONFIG: DevToolsConfig = {
-  channelName: "devtools-monitor",
-  enableBroadcast: true,
-  enableDatabase: true,
-  enablePresence: true,
-  enableSelfTestBroadcast: false,
-  showSystemLogs: true,
-  maxLogs: 200,
-  autoScroll: true,
-};
-
-const createInitialState = (): DevToolsState => ({
-  logs: [],
-  stats: {
-    isConnected: false,
-    totalMessages: 0,
-    lastActivity: null,
-    uptime: 0,
-    messageTypes: { broadcast: 0, database: 0, presence: 0, system: 0 },
-  },
-  expandedLogs: new Set(),
-  isMonitoring: false,
-  isAuthenticated: false,
-  authError: null,
-});
-
-const loadConfig = (defaultChannel: string): DevToolsConfig => {
-  if (typeof window === "undefined") {
-    return { ...DEFAULT_CONFIG, channelName: defaultChannel };
-  }
+// The props only seed settings that were never saved.
+const loadConfig = (
+  defaultChannel: string,
+  defaultMaxLogs: number
+): DevToolsConfig => {
+  const defaults: DevToolsConfig = {
+    ...DEFAULT_CONFIG,
+    channels: [defaultChannel],
+    maxLogs: clampLogCapacity(defaultMaxLogs),
+  };
+  if (typeof window === "undefined") return defaults;
 
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      const parsed = JSON.parse(stored);
+      const { channelName, ...parsed } = JSON.parse(stored);
+      // Configs saved before multi-channel support only had `channelName`.
+      const channels: string[] = Array.isArray(parsed.channels)
+        ? parsed.channels
+        : [channelName || defaultChannel];
       return {
-        ...DEFAULT_CONFIG,
+        ...defaults,
         ...parsed,
-        channelName: parsed.channelName || defaultChannel,
+        channels,
+        maxLogs: clampLogCapacity(parsed.maxLogs ?? defaultMaxLogs),
       };
     }
   } catch (error) {
     console.warn("SupabaseDevTools: Failed to parse config", error);
   }
 
-  return { ...DEFAULT_CONFIG, channelName: defaultChannel };
+  return defaults;
 };
 
 const saveConfig = (config: DevToolsConfig): void => {
@@ -345,6 +311,13 @@ const getSupabaseClient = (
   return null;
 };
 
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
 const debounce = <T extends (...args: any[]) => void>(
   fn: T,
   delay: number
@@ -356,6 +329,55 @@ const debounce = <T extends (...args: any[]) => void>(
   }) as T;
 };
 
+// Overlapping matches of different patterns are marked as one.
+const highlightText = (
+  text: string,
+  patterns: readonly RegExp[]
+): React.ReactNode => {
+  if (patterns.length === 0) return text;
+
+  const ranges: [number, number][] = [];
+  patterns.forEach((pattern) => {
+    const regex = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex += 1;
+        continue;
+      }
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  ranges.forEach(([start, end], index) => {
+    if (end <= lastIndex) return;
+    const from = Math.max(start, lastIndex);
+    let to = end;
+    // Extend over later ranges that overlap this one.
+    for (let next = index + 1; next < ranges.length; next += 1) {
+      if (ranges[next][0] > to) break;
+      to = Math.max(to, ranges[next][1]);
+    }
+    if (from > lastIndex) parts.push(text.slice(lastIndex, from));
+    parts.push(
+      <mark
+        key={from}
+        className="rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-700"
+      >
+        {text.slice(from, to)}
+      </mark>
+    );
+    lastIndex = to;
+  });
+
+  if (parts.length === 0) return text;
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+};
+
 // ============================================================================
 // MEMOIZED COMPONENTS - PREVENT UNNECESSARY RE-RENDERS
 // ============================================================================
@@ -364,10 +386,23 @@ interface LogEntryProps {
   readonly log: LogEntry;
   readonly isExpanded: boolean;
   readonly onToggleDetails: (id: number) => void;
+  readonly highlight: readonly RegExp[];
+  readonly onFollowRow?: (log: LogEntry) => void;
+  readonly renderer?: ComponentType<LogRendererProps>;
+  // Set once entries from other tabs are in the timeline.
+  readonly tab?: { readonly id: string; readonly isOwn: boolean };
 }
 
 const LogEntryComponent = memo<LogEntryProps>(
-  ({ log, isExpanded, onToggleDetails }) => {
+  ({
+    log,
+    isExpanded,
+    onToggleDetails,
+    highlight,
+    onFollowRow,
+    renderer: Renderer,
+    tab,
+  }) => {
     const getLogIcon = useMemo(() => {
       const iconClass = "w-4 h-4";
 
@@ -447,6 +482,11 @@ const LogEntryComponent = memo<LogEntryProps>(
       onToggleDetails(log.id);
     }, [log.id, onToggleDetails]);
 
+    // Plugin renderers and UPDATE column diffs replace the JSON, which stays
+    // one click away.
+    const updateRows = useMemo(() => getUpdateRows(log), [log]);
+    const [showJson, setShowJson] = useState(false);
+
     return (
       <Card className="overflow-hidden transition-all duration-200 hover:shadow-md">
         <CardContent className="p-3">
@@ -468,10 +508,52 @@ const LogEntryComponent = memo<LogEntryProps>(
                       {log.event}
                     </Badge>
                   )}
+                  {log.channelName && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs font-mono max-w-[140px] truncate"
+                      title={log.channelName}
+                    >
+                      #{log.channelName}
+                    </Badge>
+                  )}
+                  {log.binding && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs font-mono max-w-[160px] truncate border-purple-200 text-purple-700"
+                      title={`postgres_changes binding: ${log.binding}`}
+                    >
+                      {log.binding}
+                    </Badge>
+                  )}
+                  {tab && (
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        "text-xs font-mono",
+                        !tab.isOwn && "border-orange-200 text-orange-700"
+                      )}
+                      title={
+                        tab.isOwn
+                          ? "Captured in this tab"
+                          : `Captured in tab ${tab.id}`
+                      }
+                    >
+                      tab {tab.id}
+                    </Badge>
+                  )}
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <Clock className="w-3 h-3" />
                     {log.timestamp}
                   </div>
+                  {log.size !== undefined && (
+                    <span
+                      className="text-xs font-mono text-muted-foreground"
+                      title="Serialized payload size"
+                    >
+                      {formatBytes(log.size)}
+                    </span>
+                  )}
                 </div>
                 {log.details && (
                   <Button
@@ -490,7 +572,7 @@ const LogEntryComponent = memo<LogEntryProps>(
               </div>
 
               <p className="text-sm text-foreground font-mono leading-relaxed break-words">
-                {log.message}
+                {highlightText(log.message, highlight)}
               </p>
 
               {log.details && isExpanded && (
@@ -500,11 +582,47 @@ const LogEntryComponent = memo<LogEntryProps>(
                     <span className="text-xs font-semibold text-muted-foreground">
                       DETAILS
                     </span>
+                    <div className="ml-auto flex items-center gap-1">
+                      {onFollowRow && log.source === "database" && (
+                        <Button
+                          onClick={() => onFollowRow(log)}
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 px-2 text-xs"
+                          title="Show this row's history"
+                        >
+                          <History className="w-3 h-3 mr-1" />
+                          Row
+                        </Button>
+                      )}
+                      {(Renderer || updateRows) && (
+                        <Button
+                          onClick={() => setShowJson((prev) => !prev)}
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 px-2 text-xs"
+                        >
+                          {!showJson ? "JSON" : Renderer ? "View" : "Diff"}
+                        </Button>
+                      )}
+                    </div>
                   </div>
                   <ScrollArea className="max-h-60 h-[calc(100vh-200px)]">
-                    <pre className="text-xs font-mono text-foreground whitespace-pre-wrap break-words">
-                      {JSON.stringify(log.details, null, 2)}
-                    </pre>
+                    {Renderer && !showJson ? (
+                      <Renderer log={log} />
+                    ) : updateRows && !showJson ? (
+                      <RowDiffView
+                        oldRow={updateRows.oldRow}
+                        newRow={updateRows.newRow}
+                      />
+                    ) : (
+                      <pre className="text-xs font-mono text-foreground whitespace-pre-wrap break-words">
+                        {highlightText(
+                          JSON.stringify(log.details, null, 2),
+                          highlight
+                        )}
+                      </pre>
+                    )}
                   </ScrollArea>
                 </div>
               )}
@@ -522,40 +640,101 @@ LogEntryComponent.displayName = "LogEntry";
 // MAIN COMPONENT - OPTIMIZED
 // ============================================================================
 
-const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
-  client,
-  position = "bottom-right",
-  defaultChannel = "devtools-monitor",
-  enableKeyboardShortcut = true,
-  keyboardShortcut = "Ctrl+Shift+D",
-  autoShow = false,
-  maxLogs = 200,
-}) => {
+const NO_PLUGINS: readonly DevToolsPlugin[] = [];
+
+const SupabaseDevToolsPanel = (
+  {
+    client,
+    position = "bottom-right",
+    defaultChannel = "devtools-monitor",
+    enableKeyboardShortcut = true,
+    keyboardShortcut = "Ctrl+Shift+D",
+    autoShow = false,
+    maxLogs = 200,
+    plugins = NO_PLUGINS,
+  }: SupabaseDevToolsProps,
+  ref: ForwardedRef<SupabaseDevToolsHandle>
+) => {
   // ============================================================================
   // STATE MANAGEMENT - OPTIMIZED WITH REDUCER
   // ============================================================================
 
   const [isOpen, setIsOpen] = useState(autoShow);
-  const [state, dispatch] = useReducer(devToolsReducer, createInitialState());
-  const [config, setConfig] = useState<DevToolsConfig>(() => {
-    const loadedConfig = loadConfig(defaultChannel);
-    return { ...loadedConfig, maxLogs };
-  });
+  const [config, setConfig] = useState<DevToolsConfig>(() =>
+    loadConfig(defaultChannel, maxLogs)
+  );
 
   // ============================================================================
   // REFS & MEMOIZED VALUES
   // ============================================================================
 
-  const abortControllerRef = useRef<AbortController>(new AbortController());
-  const channelRef = useRef<RealtimeChannel | null>(null);
-  const startTimeRef = useRef<Date | null>(null);
-  const logContainerRef = useRef<HTMLDivElement>(null);
+  const [channelDraft, setChannelDraft] = useState("");
+  const [channelFilter, setChannelFilter] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("monitor");
+  const [followedRowId, setFollowedRowId] = useState<string | null>(null);
+  const [logQueryText, setLogQueryText] = useState("");
+  const [showExportPanel, setShowExportPanel] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  const [storedSessions, setStoredSessions] = useState<StoredSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [tabId] = useState(createTabId);
+  const [connectedTabs, setConnectedTabs] = useState<readonly string[]>([]);
+  const [tabFilter, setTabFilter] = useState<string | null>(null);
+  // Tabs whose entries have reached this one since the last clear.
+  const [sharingTabs, setSharingTabs] = useState<readonly string[]>([]);
+  const [showAppChannels, setShowAppChannels] = useState(false);
+  const [appChannels, setAppChannels] = useState<DiscoveredChannel[]>([]);
+  const [tappedTopics, setTappedTopics] = useState<string[]>([]);
+  const [exportScope, setExportScope] = useState<"all" | "filtered">("all");
+  const [loadedRecording, setLoadedRecording] =
+    useState<SessionRecording | null>(null);
+  const [replayProgress, setReplayProgress] = useState<ReplayProgress | null>(
+    null
+  );
+  const [replaySpeed, setReplaySpeed] = useState<number>(REPLAY_SPEEDS[0]);
+  const [now, setNow] = useState(Date.now);
 
+  const logContainerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const replayControllerRef = useRef<ReplayController | null>(null);
+  const logStoreRef = useRef<Promise<LogStore> | null>(null);
+  // Id of the newest log written to the current session.
+  const persistedLogIdRef = useRef(0);
+  const tabSyncRef = useRef<TabSync | null>(null);
+  // Id of the newest log shared with other tabs.
+  const sharedLogIdRef = useRef(0);
   const supabase = useMemo(
     () => getSupabaseClient(client as SupabaseClient),
     [client]
   );
 
+  // The inspector owns the realtime state and wiring; the panel renders it.
+  const inspector = useMemo(
+    () => createRealtimeInspector(supabase),
+    [supabase]
+  );
+  const state = useSyncExternalStore(
+    inspector.subscribe,
+    inspector.getState,
+    inspector.getState
+  );
+  const {
+    dispatch,
+    log: addLog,
+    replay: replayLog,
+    startMonitoring,
+    stopMonitoring,
+    startAllMonitoring,
+    stopAllMonitoring,
+    sendBroadcast,
+    updateTrackedPresence,
+    startLatencyProbe,
+    stopLatencyProbe,
+  } = inspector;
+
+  const pluginTabs = useMemo(() => getPluginTabs(plugins), [plugins]);
+
   const statusInfo = useMemo(() => {
     if (state.authError) {
       return CONFIG.status.authError;
@@ -569,36 +748,78 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
     return { text: "Offline", color: "text-gray-500", bgColor: "bg-gray-500" };
   }, [state.authError, state.isAuthenticated, state.isMonitoring]);
 
-  const filteredLogs = useMemo(() => {
-    return config.showSystemLogs
-      ? state.logs
-      : state.logs.filter((log) => log.source !== "system");
-  }, [state.logs, config.showSystemLogs]);
+  const logQuery = useMemo(() => parseLogQuery(logQueryText), [logQueryText]);
 
-  // ============================================================================
-  // OPTIMIZED CALLBACKS - MINIMAL DEPENDENCIES
-  // ============================================================================
+  const logHighlight = useMemo(
+    () => getLogQueryHighlights(logQuery),
+    [logQuery]
+  );
 
-  const addLog = useCallback(
-    (
-      type: LogEntry["type"],
-      message: string,
-      source: LogEntry["source"],
-      details?: Record<string, unknown>,
-      event?: string
-    ) => {
-      if (abortControllerRef.current.signal.aborted) {
-        return;
-      }
+  // An imported capture replaces the live logs and stats until it is closed.
+  const offline = state.offlineCapture;
+  const offlineLogs = useMemo(
+    () =>
+      offline &&
+      createLogBuffer(Math.max(1, offline.logs.length), offline.logs),
+    [offline]
+  );
+  const remoteTabIds = useMemo(
+    () => Array.from(new Set([...connectedTabs, ...sharingTabs])),
+    [connectedTabs, sharingTabs]
+  );
+  const viewLogs = offlineLogs ?? state.logs;
+  const viewStats = offline ? offline.stats : state.stats;
+  const viewPayloadSizes = useMemo(
+    () =>
+      offline
+        ? addPayloadSizes(EMPTY_PAYLOAD_SIZES, [...offline.logs].reverse())
+        : state.payloadSizes,
+    [offline, state.payloadSizes]
+  );
+  const viewRowHistory = useMemo(
+    () =>
+      offline
+        ? addRowEvents(EMPTY_ROW_HISTORY, [...offline.logs].reverse())
+        : state.rowHistory,
+    [offline, state.rowHistory]
+  );
+  const viewChannels = offline ? offline.config.channels : config.channels;
+
+  // A new filter for every change of conditions or capture, so each frame
+  // only filters the entries logged since the last one.
+  const logFilter = useCallback(
+    (log: LogEntry) =>
+      (config.showSystemLogs || log.source !== "system") &&
+      (channelFilter === null || log.channelName === channelFilter) &&
+      (offline || tabFilter === null || (log.tabId ?? tabId) === tabFilter) &&
+      matchesLogQuery(log, logQuery),
+    [config.showSystemLogs, channelFilter, offline, tabFilter, tabId, logQuery]
+  );
+  const filteredLogs = useMemo(
+    () => filterLogBuffer(viewLogs, logFilter),
+    [viewLogs, logFilter]
+  );
 
-      dispatch({
-        type: "ADD_LOG",
-        payload: { type, message, source, details, event },
-      });
-    },
-    []
+  const subscribedChannels = useMemo(
+    () =>
+      Object.values(state.channels)
+        .filter((channel) => channel.status === "subscribed")
+        .map((channel) => channel.name),
+    [state.channels]
+  );
+  const activeChannelCount = subscribedChannels.length;
+  const reconnectingCount = Object.values(state.channels).filter(
+    (channel) => channel.status === "reconnecting"
+  ).length;
+  const reconnectSummary = useMemo(
+    () => summarizeReconnects(state.reconnectCycles),
+    [state.reconnectCycles]
   );
 
+  // ============================================================================
+  // OPTIMIZED CALLBACKS - MINIMAL DEPENDENCIES
+  // ============================================================================
+
   const updateConfig = useCallback((updates: Partial<DevToolsConfig>) => {
     setConfig((prev) => {
       const newConfig = { ...prev, ...updates };
@@ -617,260 +838,440 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
     [config.autoScroll]
   );
 
-  // ============================================================================
-  // AUTH CHECK
-  // ============================================================================
-
-  const checkAuth = useCallback(async () => {
-    if (!supabase || abortControllerRef.current.signal.aborted) return;
+  const [droppedEventsDraft, setDroppedEventsDraft] = useState(() =>
+    config.droppedEventNames.join(", ")
+  );
 
-    try {
-      const {
-        data: { session },
-        error,
-      } = await supabase.auth.getSession();
-
-      if (abortControllerRef.current.signal.aborted) return;
-
-      if (error) throw error;
-
-      const authenticated = !!session;
-      dispatch({
-        type: "SET_AUTH_STATE",
-        payload: {
-          isAuthenticated: authenticated,
-          authError: authenticated ? null : "No active session",
-        },
-      });
+  const commitDroppedEvents = useCallback(() => {
+    const droppedEventNames = Array.from(
+      new Set(
+        droppedEventsDraft
+          .split(",")
+          .map((name) => name.trim())
+          .filter(Boolean)
+      )
+    );
+    updateConfig({ droppedEventNames });
+    setDroppedEventsDraft(droppedEventNames.join(", "));
+  }, [droppedEventsDraft, updateConfig]);
+
+  // Resizing drops the entries that no longer fit, so the limit is applied
+  // only once typing is done.
+  const [maxLogsDraft, setMaxLogsDraft] = useState(() =>
+    String(config.maxLogs)
+  );
 
-      if (!authenticated) {
-        addLog("warning", "🔒 No active Supabase session", "system", {
-          session: null,
-        });
+  const commitMaxLogs = useCallback(() => {
+    const parsed = parseInt(maxLogsDraft, 10);
+    const maxLogs = Number.isNaN(parsed)
+      ? config.maxLogs
+      : clampLogCapacity(parsed);
+    updateConfig({ maxLogs });
+    setMaxLogsDraft(String(maxLogs));
+  }, [maxLogsDraft, config.maxLogs, updateConfig]);
+
+  const includeChannel = useCallback(
+    (channelName: string) => {
+      if (!config.channels.includes(channelName)) {
+        updateConfig({ channels: [...config.channels, channelName] });
       }
-    } catch (error: unknown) {
-      if (abortControllerRef.current.signal.aborted) return;
-
-      const errorMessage =
-        error instanceof Error ? error.message : "Authentication check failed";
-      dispatch({
-        type: "SET_AUTH_STATE",
-        payload: {
-          isAuthenticated: false,
-          authError: errorMessage,
-        },
+    },
+    [config.channels, updateConfig]
+  );
+
+  const addChannel = useCallback(() => {
+    const channelName = channelDraft.trim();
+    if (!channelName) return;
+
+    includeChannel(channelName);
+    setChannelDraft("");
+  }, [channelDraft, includeChannel]);
+
+  const removeChannel = useCallback(
+    (channelName: string) => {
+      stopMonitoring(channelName);
+      dispatch({ type: "REMOVE_CHANNEL", payload: channelName });
+      updateConfig({
+        channels: config.channels.filter((name) => name !== channelName),
       });
-      addLog("error", `🔴 Auth failed: ${errorMessage}`, "system", { error });
-    }
-  }, [supabase, addLog]);
+      setChannelFilter((prev) => (prev === channelName ? null : prev));
+    },
+    [config.channels, dispatch, stopMonitoring, updateConfig]
+  );
+
+  const untrackPresence = useCallback(
+    (channelName: string) => updateTrackedPresence(channelName, null),
+    [updateTrackedPresence]
+  );
 
   // ============================================================================
-  // MONITORING FUNCTIONS
+  // APP CHANNEL TAPS
   // ============================================================================
 
-  const startMonitoring = useCallback(() => {
-    if (!supabase || !state.isAuthenticated || !config.channelName.trim()) {
-      addLog(
-        "error",
-        "Cannot start: missing client, auth, or channel name",
-        "system"
-      );
-      return;
-    }
+  const untapAppChannel = useCallback(
+    (topic: string, reason?: string) => {
+      if (inspector.untapAppChannel(topic, reason)) {
+        setTappedTopics((prev) => prev.filter((item) => item !== topic));
+      }
+    },
+    [inspector]
+  );
 
-    if (channelRef.current) {
-      try {
-        channelRef.current.unsubscribe();
-      } catch (error) {
-        console.warn("SupabaseDevTools: Error unsubscribing", error);
+  const discoverAppChannels = useCallback(() => {
+    const channels = inspector.getAppChannels();
+    setAppChannels(channels.map(describeChannel));
+
+    // Taps of channels the app has removed since have nothing left to hear.
+    const topics = new Set(channels.map((channel) => channel.topic));
+    inspector
+      .getTappedTopics()
+      .filter((topic) => !topics.has(topic))
+      .forEach((topic) => untapAppChannel(topic, "channel was removed"));
+  }, [inspector, untapAppChannel]);
+
+  const tapAppChannel = useCallback(
+    (topic: string) => {
+      if (inspector.tapAppChannel(topic)) {
+        setTappedTopics((prev) => [...prev, topic]);
       }
-      channelRef.current = null;
+    },
+    [inspector]
+  );
+
+  const toggleWireCapture = useCallback(() => {
+    if (state.wire.capturing) {
+      inspector.stopWireCapture();
+    } else {
+      inspector.startWireCapture();
     }
+  }, [inspector, state.wire.capturing]);
+
+  // ============================================================================
+  // Event Handlers
+  // ============================================================================
 
-    const channel = supabase.channel(config.channelName);
-    channelRef.current = channel;
+  const toggleLogDetails = useCallback(
+    (logId: number) => {
+      dispatch({ type: "TOGGLE_LOG_DETAILS", payload: logId });
+    },
+    [dispatch]
+  );
 
-    if (config.enableBroadcast) {
-      channel.on("broadcast", { event: `*` }, (payload: any) => {
-        if (abortControllerRef.current.signal.aborted) {
-          return;
-        }
+  // Read through a ref so log entries do not re-render on every row change.
+  const viewRowHistoryRef = useRef(viewRowHistory);
+  useEffect(() => {
+    viewRowHistoryRef.current = viewRowHistory;
+  }, [viewRowHistory]);
 
-        console.log((channelRef.current as any)?.subTopic);
-        console.log(config.channelName);
+  const followRow = useCallback((log: LogEntry) => {
+    setFollowedRowId(getRowHistoryId(viewRowHistoryRef.current, log));
+    setActiveTab("rows");
+  }, []);
 
-        if ((channelRef.current as any)?.subTopic !== config.channelName) {
-          return;
+  const renderLog = useCallback(
+    (log: LogEntry) => (
+      <LogEntryComponent
+        log={log}
+        isExpanded={state.expandedLogs.has(log.id)}
+        onToggleDetails={toggleLogDetails}
+        highlight={logHighlight}
+        onFollowRow={followRow}
+        renderer={findLogRenderer(plugins, log)?.component}
+        tab={
+          log.tabId
+            ? { id: log.tabId, isOwn: false }
+            : remoteTabIds.length > 0 && !offline
+            ? { id: tabId, isOwn: true }
+            : undefined
         }
+      />
+    ),
+    [
+      state.expandedLogs,
+      toggleLogDetails,
+      logHighlight,
+      followRow,
+      plugins,
+      remoteTabIds.length,
+      offline,
+      tabId,
+    ]
+  );
+
+  // Logs are masked as they come in; exports are masked again with the
+  // current rules, which may be stricter than the ones they were logged with.
+  const redactor = useMemo(
+    () => createRedactor(config.redactionRules),
+    [config.redactionRules]
+  );
+
+  const exportLogs = useCallback(
+    (format: CaptureFileFormat) => {
+      const logs = toLogArray(exportScope === "all" ? viewLogs : filteredLogs);
+      const capture = createCapture(
+        redactor ? logs.map(redactor.redactEntry) : logs,
+        offline ? offline.config : config,
+        viewStats,
+        exportScope
+      );
+
+      try {
+        downloadCapture(capture, format);
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        addLog("error", `❌ Export failed: ${errorMessage}`, "system", {
+          error,
+        });
+      }
+    },
+    [
+      exportScope,
+      viewLogs,
+      filteredLogs,
+      redactor,
+      offline,
+      config,
+      viewStats,
+      addLog,
+    ]
+  );
+
+  const importCapture = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const capture = parseCapture(await file.text());
+        dispatch({
+          type: "LOAD_CAPTURE",
+          payload: {
+            fileName: file.name,
+            exportedAt: capture.exportedAt,
+            logs: redactor
+              ? capture.logs.map(redactor.redactEntry)
+              : capture.logs,
+            stats: restoreStats(capture.stats),
+            config: { ...DEFAULT_CONFIG, ...capture.config },
+          },
+        });
+        setChannelFilter(null);
         addLog(
-          "success",
-          `📻 Broadcast: ${payload.event || "unknown"}`,
-          "broadcast",
-          payload,
-          payload.event
+          "info",
+          `📂 Opened capture ${file.name} (${capture.logs.length} logs)`,
+          "system"
         );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        addLog("error", `❌ Import failed: ${errorMessage}`, "system", {
+          fileName: file.name,
+        });
+      }
+    },
+    [redactor, dispatch, addLog]
+  );
+
+  const closeCapture = useCallback(() => {
+    dispatch({ type: "CLOSE_CAPTURE" });
+    setChannelFilter(null);
+  }, [dispatch]);
+
+  // The database is opened on first use, so it is never created unless
+  // persistence or the session browser is used.
+  const getLogStore = useCallback((): Promise<LogStore> => {
+    if (!logStoreRef.current) {
+      logStoreRef.current = openLogStore().catch((error: unknown) => {
+        logStoreRef.current = null;
+        throw error;
       });
     }
+    return logStoreRef.current;
+  }, []);
 
-    if (config.enableDatabase) {
-      channel.on(
-        "postgres_changes",
-        { event: "*", schema: "*", table: "*" },
-        (payload: any) => {
-          if (abortControllerRef.current.signal.aborted) {
-            return;
-          }
+  const refreshSessions = useCallback(async () => {
+    if (!isLogStoreSupported()) return;
 
-          console.log(payload?.originChannel);
-
-          addLog(
-            "success",
-            `🗄️ DB ${payload.eventType}: ${payload.table}`,
-            "database",
-            {
-              eventType: payload.eventType,
-              table: payload.table,
-              schema: payload.schema,
-              new: payload.new,
-              old: payload.old,
-            },
-            payload.eventType
-          );
-        }
-      );
+    try {
+      const store = await getLogStore();
+      setStoredSessions(await store.listSessions());
+    } catch (error) {
+      console.warn("SupabaseDevTools: Failed to list saved sessions", error);
     }
+  }, [getLogStore]);
 
-    // Presence listener
-    if (config.enablePresence) {
-      channel.on("presence", { event: "*" }, (payload: any) => {
-        if (abortControllerRef.current.signal.aborted) return;
+  // Opens a saved session read-only, the same way as an imported capture.
+  const openSession = useCallback(
+    async (session: StoredSession) => {
+      try {
+        const store = await getLogStore();
+        const logs = await store.loadSession(session.id);
+        dispatch({
+          type: "LOAD_CAPTURE",
+          payload: {
+            fileName: session.name,
+            exportedAt: new Date(session.updatedAt).toISOString(),
+            logs: redactor ? logs.map(redactor.redactEntry) : logs,
+            stats: getSessionStats(logs),
+            config: { ...config, channels: session.channels },
+          },
+        });
+        setChannelFilter(null);
         addLog(
           "info",
-          `👥 Presence: ${payload.event}`,
-          "presence",
-          payload,
-          payload.event
+          `📂 Opened session ${session.name} (${logs.length} logs)`,
+          "system"
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        addLog(
+          "error",
+          `❌ Opening session failed: ${errorMessage}`,
+          "system",
+          {
+            sessionId: session.id,
+          }
         );
-      });
-    }
-
-    channel.subscribe((status: string, err?: Error) => {
-      if (abortControllerRef.current.signal.aborted) {
-        return;
       }
+    },
+    [getLogStore, redactor, config, dispatch, addLog]
+  );
 
-      if (err) {
-        addLog("error", `❌ Subscription error: ${err.message}`, "system", {
-          error: err,
-        });
-        dispatch({ type: "SET_MONITORING", payload: false });
-        dispatch({ type: "UPDATE_STATS", payload: { isConnected: false } });
-      } else {
-        addLog("info", `📡 Status: ${status}`, "system", { status });
-
-        if (status === "SUBSCRIBED") {
-          dispatch({
-            type: "SET_MONITORING",
-            payload: true,
-          });
-
-          dispatch({
-            type: "UPDATE_STATS",
-            payload: { isConnected: true },
-          });
-
-          addLog("success", `✅ Monitoring ${config.channelName}`, "system");
-
-          startTimeRef.current = new Date();
-          addLog("success", `✅ Monitoring ${config.channelName}`, "system");
-        } else if (status === "CHANNEL_ERROR" || status === "CLOSED") {
-          dispatch({ type: "SET_MONITORING", payload: false });
-          dispatch({ type: "UPDATE_STATS", payload: { isConnected: false } });
-        }
+  const renameSession = useCallback(
+    async (sessionId: string, name: string) => {
+      try {
+        const store = await getLogStore();
+        await store.renameSession(sessionId, name);
+      } catch (error) {
+        console.warn("SupabaseDevTools: Failed to rename session", error);
       }
-    });
-  }, [supabase, state.isAuthenticated, config, addLog]);
+      await refreshSessions();
+    },
+    [getLogStore, refreshSessions]
+  );
 
-  const stopMonitoring = useCallback(() => {
-    if (channelRef.current) {
+  const deleteSession = useCallback(
+    async (sessionId: string) => {
       try {
-        channelRef.current.unsubscribe();
-        addLog("info", `⏹️ Stopped monitoring ${config.channelName}`, "system");
+        const store = await getLogStore();
+        await store.deleteSession(sessionId);
       } catch (error) {
-        addLog("warning", `⚠️ Error stopping: ${error}`, "system");
+        console.warn("SupabaseDevTools: Failed to delete session", error);
       }
-      channelRef.current = null;
-    }
+      await refreshSessions();
+    },
+    [getLogStore, refreshSessions]
+  );
 
-    dispatch({ type: "SET_MONITORING", payload: false });
-    dispatch({ type: "UPDATE_STATS", payload: { isConnected: false } });
-    startTimeRef.current = null;
-  }, [config.channelName, addLog]);
-
-  const sendTestBroadcast = useCallback(() => {
-    if (!supabase || !state.isAuthenticated || !state.isMonitoring) {
-      addLog(
-        "warning",
-        "Cannot send: not authenticated or monitoring",
-        "system"
-      );
-      return;
-    }
+  const startRecording = useCallback(() => {
+    dispatch({ type: "START_RECORDING", payload: { startedAt: Date.now() } });
+    addLog("info", "⏺️ Recording started", "system");
+  }, [dispatch, addLog]);
+
+  const stopRecording = useCallback(() => {
+    if (!state.recording) return;
+
+    const { startedAt, events, eventCount } = state.recording;
+    const recording = createRecording(startedAt, events.slice(0, eventCount));
+    dispatch({ type: "STOP_RECORDING" });
+    setLoadedRecording(recording);
+    addLog(
+      "info",
+      `⏹️ Recording stopped (${recording.events.length} events)`,
+      "system"
+    );
+  }, [state.recording, dispatch, addLog]);
 
-    const testPayload = {
-      message: "DevTools test broadcast",
-      timestamp: new Date().toISOString(),
-      testId: Math.random().toString(36).substr(2, 9),
-      source: "devtools",
-    };
+  const loadRecording = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
 
-    try {
-      const channel = supabase.channel(config.channelName);
-      channel
-        .send({
-          type: "broadcast",
-          event: "devtools-test",
-          payload: testPayload,
-        })
-        .then(() => {
-          addLog(
-            "success",
-            "📡 Test broadcast sent",
-            "self",
-            testPayload,
-            "devtools-test"
-          );
-        })
-        .catch((error: Error) => {
-          addLog("error", `❌ Broadcast failed: ${error.message}`, "system", {
-            error,
-          });
-        });
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      addLog("error", `❌ Broadcast setup failed: ${errorMessage}`, "system", {
-        error,
-      });
-    }
+      try {
+        const recording = parseRecording(await file.text(), file.name);
+        replayControllerRef.current?.stop();
+        replayControllerRef.current = null;
+        setReplayProgress(null);
+        setLoadedRecording(recording);
+        addLog(
+          "info",
+          `📂 Loaded recording ${file.name} (${recording.events.length} events)`,
+          "system"
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        addLog(
+          "error",
+          `❌ Loading recording failed: ${errorMessage}`,
+          "system",
+          {
+            fileName: file.name,
+          }
+        );
+      }
+    },
+    [addLog]
+  );
+
+  // Clears this tab's logs and the ones other tabs shared with it.
+  const clearLogs = useCallback(() => {
+    inspector.clearLogs();
+    setSharingTabs([]);
+  }, [inspector]);
+
+  // Starts a fresh replay on an empty log list so the Monitor and Stats tabs
+  // build up exactly as they did live.
+  const ensureReplayController = useCallback((): ReplayController | null => {
+    if (!loadedRecording) return null;
+
+    const current = replayControllerRef.current;
+    if (current && replayProgress?.status !== "finished") return current;
+
+    current?.stop();
+    dispatch({ type: "CLOSE_CAPTURE" });
+    clearLogs();
+    const controller = createReplayController(
+      loadedRecording,
+      { onEvent: replayLog, onProgress: setReplayProgress },
+      replaySpeed
+    );
+    replayControllerRef.current = controller;
+    return controller;
   }, [
-    supabase,
-    state.isAuthenticated,
-    state.isMonitoring,
-    config.channelName,
-    addLog,
+    dispatch,
+    clearLogs,
+    loadedRecording,
+    replayProgress?.status,
+    replayLog,
+    replaySpeed,
   ]);
 
-  // ============================================================================
-  // Event Handlers
-  // ============================================================================
+  const playReplay = useCallback(() => {
+    ensureReplayController()?.play();
+  }, [ensureReplayController]);
 
-  const toggleLogDetails = useCallback((logId: number) => {
-    dispatch({ type: "TOGGLE_LOG_DETAILS", payload: logId });
+  const pauseReplay = useCallback(() => {
+    replayControllerRef.current?.pause();
   }, []);
 
-  const clearLogs = useCallback(() => {
-    dispatch({ type: "CLEAR_LOGS" });
+  const stepReplay = useCallback(() => {
+    ensureReplayController()?.step();
+  }, [ensureReplayController]);
+
+  const stopReplay = useCallback(() => {
+    replayControllerRef.current?.stop();
+    replayControllerRef.current = null;
+    setReplayProgress(null);
+  }, []);
+
+  const changeReplaySpeed = useCallback((speed: number) => {
+    setReplaySpeed(speed);
+    replayControllerRef.current?.setSpeed(speed);
   }, []);
 
   const handleToggleOpen = useCallback(() => {
@@ -879,44 +1280,208 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
     }
   }, [state.authError]);
 
+  // ============================================================================
+  // IMPERATIVE HANDLE
+  // ============================================================================
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      open: () => {
+        if (!inspector.getState().authError) setIsOpen(true);
+      },
+      close: () => setIsOpen(false),
+      startMonitoring: (channelName) => {
+        if (!channelName) {
+          startAllMonitoring();
+          return;
+        }
+        includeChannel(channelName);
+        startMonitoring(channelName);
+      },
+      stopMonitoring: (channelName) =>
+        channelName ? stopMonitoring(channelName) : stopAllMonitoring(),
+      log: (entry) =>
+        addLog(
+          entry.type ?? "info",
+          entry.message,
+          entry.source ?? "system",
+          entry.details,
+          entry.event,
+          entry.channelName
+        ),
+      clear: clearLogs,
+      getLogs: () => {
+        inspector.flush();
+        return toLogArray(inspector.getState().logs).filter(
+          (log) => !log.tabId
+        );
+      },
+    }),
+    [
+      inspector,
+      includeChannel,
+      addLog,
+      clearLogs,
+      startMonitoring,
+      stopMonitoring,
+      startAllMonitoring,
+      stopAllMonitoring,
+    ]
+  );
+
   // ============================================================================
   // Side Effects
   // ============================================================================
 
+  // The panel's config drives the inspector; sync it before starting.
   useEffect(() => {
-    const abortController = new AbortController();
-    abortControllerRef.current = abortController;
+    inspector.setConfig(config);
+  }, [inspector, config]);
 
-    if (supabase) {
-      checkAuth();
-    } else {
-      dispatch({
-        type: "SET_AUTH_STATE",
-        payload: {
-          isAuthenticated: false,
-          authError: "Supabase client not found",
-        },
+  useEffect(() => {
+    inspector.setTransformers(getPluginTransformers(plugins));
+  }, [inspector, plugins]);
+
+  useEffect(() => {
+    inspector.start();
+    return () => {
+      inspector.stop();
+      replayControllerRef.current?.stop();
+    };
+  }, [inspector]);
+
+  useEffect(
+    () => () => {
+      logStoreRef.current?.then(
+        (store) => store.close(),
+        () => undefined
+      );
+      logStoreRef.current = null;
+    },
+    []
+  );
+
+  // Each page load persists into a session of its own. Logs already on screen
+  // when persistence is turned on are saved with it.
+  useEffect(() => {
+    if (!config.persistLogs || !isLogStoreSupported()) return;
+
+    let cancelled = false;
+    getLogStore()
+      .then(async (store) => {
+        const session = await store.startSession();
+        if (cancelled) {
+          await store.deleteSession(session.id);
+          return;
+        }
+        persistedLogIdRef.current = 0;
+        setCurrentSessionId(session.id);
+      })
+      .catch((error: unknown) => {
+        console.warn("SupabaseDevTools: Failed to start a session", error);
       });
-      addLog("error", "🔴 Supabase client not available", "system");
-    }
 
     return () => {
-      abortController.abort();
-      stopMonitoring();
+      cancelled = true;
+      setCurrentSessionId(null);
     };
-  }, [supabase, checkAuth, addLog, stopMonitoring]);
+  }, [config.persistLogs, getLogStore]);
+
+  useEffect(() => {
+    if (!currentSessionId) return;
+
+    getLogStore()
+      .then((store) => store.pruneSessions(config.sessionLimit))
+      .then(refreshSessions)
+      .catch((error: unknown) => {
+        console.warn("SupabaseDevTools: Failed to prune sessions", error);
+      });
+  }, [currentSessionId, config.sessionLimit, getLogStore, refreshSessions]);
+
+  useEffect(() => {
+    if (!currentSessionId) return;
+
+    const newLogs = getLogsAfter(state.logs, persistedLogIdRef.current);
+    if (newLogs.length === 0) return;
+
+    persistedLogIdRef.current = newLogs[newLogs.length - 1].id;
+    const ownLogs = newLogs.filter((log) => !log.tabId);
+    if (ownLogs.length === 0) return;
+
+    getLogStore()
+      .then((store) => store.appendLogs(currentSessionId, ownLogs))
+      .catch((error: unknown) => {
+        console.warn("SupabaseDevTools: Failed to persist logs", error);
+      });
+  }, [state.logs, currentSessionId, getLogStore]);
+
+  useEffect(() => {
+    if (showSessions) refreshSessions();
+  }, [showSessions, refreshSessions]);
+
+  // Other tabs' entries join this tab's buffer in the order they arrive, so
+  // the list stays ordered by id like the tab's own entries.
+  useEffect(() => {
+    if (!config.shareAcrossTabs || !isTabSyncSupported()) return;
+
+    const tabSync = createTabSync(tabId, {
+      onLogs: (sourceTabId, logs) => {
+        if (logs.length === 0) return;
+        dispatch({
+          type: "ADD_TAB_LOGS",
+          payload: logs.map((log) => ({ ...log, tabId: sourceTabId })),
+        });
+        setSharingTabs((prev) =>
+          prev.includes(sourceTabId) ? prev : [...prev, sourceTabId]
+        );
+      },
+      onTabsChange: setConnectedTabs,
+    });
+    tabSyncRef.current = tabSync;
+
+    return () => {
+      tabSync.close();
+      tabSyncRef.current = null;
+      setConnectedTabs([]);
+    };
+  }, [config.shareAcrossTabs, tabId, dispatch]);
+
+  // Logs already on screen when sharing first starts are shared too. Log ids
+  // only grow, so turning sharing off and on again never sends an entry twice.
+  useEffect(() => {
+    const tabSync = tabSyncRef.current;
+    if (!tabSync) return;
+
+    const newLogs = getLogsAfter(state.logs, sharedLogIdRef.current);
+    if (newLogs.length === 0) return;
+
+    sharedLogIdRef.current = newLogs[newLogs.length - 1].id;
+    tabSync.shareLogs(newLogs.filter((log) => !log.tabId));
+  }, [state.logs, config.shareAcrossTabs]);
 
   // Auto-scroll effect
   useEffect(() => {
     debouncedScroll();
-  }, [state.logs.length, debouncedScroll]);
+  }, [state.logs.pushed, debouncedScroll]);
 
-  // Stop monitoring if auth is lost
+  // Tick once a second while a reconnect countdown is on screen.
   useEffect(() => {
-    if (!state.isAuthenticated && state.isMonitoring) {
-      stopMonitoring();
-    }
-  }, [state.isAuthenticated, state.isMonitoring, stopMonitoring]);
+    if (!reconnectingCount) return;
+
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [reconnectingCount]);
+
+  // Keep the app channel list fresh while it is open
+  useEffect(() => {
+    if (!showAppChannels) return;
+
+    discoverAppChannels();
+    const intervalId = setInterval(discoverAppChannels, 2000);
+    return () => clearInterval(intervalId);
+  }, [showAppChannels, discoverAppChannels]);
 
   // Keyboard shortcut
   useEffect(() => {
@@ -1051,12 +1616,35 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
             </div>
           )}
 
-          <Tabs defaultValue="monitor" className="flex-1 flex flex-col">
-            <TabsList className="grid w-full grid-cols-3 mx-4 mt-4">
+          <Tabs
+            value={activeTab}
+            onValueChange={setActiveTab}
+            className="flex-1 flex flex-col"
+          >
+            <TabsList
+              className="grid w-full mx-4 mt-4"
+              style={{
+                gridTemplateColumns: `repeat(${
+                  6 + pluginTabs.length
+                }, minmax(0, 1fr))`,
+              }}
+            >
               <TabsTrigger value="monitor" className="flex items-center gap-1">
                 <Monitor className="w-3 h-3" />
                 Monitor
               </TabsTrigger>
+              <TabsTrigger value="presence" className="flex items-center gap-1">
+                <Users className="w-3 h-3" />
+                Presence
+              </TabsTrigger>
+              <TabsTrigger value="rows" className="flex items-center gap-1">
+                <History className="w-3 h-3" />
+                Rows
+              </TabsTrigger>
+              <TabsTrigger value="wire" className="flex items-center gap-1">
+                <Cable className="w-3 h-3" />
+                Wire
+              </TabsTrigger>
               <TabsTrigger value="stats" className="flex items-center gap-1">
                 <Activity className="w-3 h-3" />
                 Stats
@@ -1065,6 +1653,17 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                 <Settings className="w-3 h-3" />
                 Settings
               </TabsTrigger>
+              {pluginTabs.map(({ id, label, icon: Icon }) => (
+                <TabsTrigger
+                  key={id}
+                  value={`plugin:${id}`}
+                  className="flex items-center gap-1"
+                  title={label}
+                >
+                  {Icon && <Icon className="w-3 h-3" />}
+                  <span className="truncate">{label}</span>
+                </TabsTrigger>
+              ))}
             </TabsList>
 
             <TabsContent value="monitor" className="flex-1 flex flex-col mt-0">
@@ -1089,59 +1688,372 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
 
                   <div className="flex gap-2">
                     <Input
-                      value={config.channelName}
-                      onChange={(e) =>
-                        updateConfig({ channelName: e.target.value })
-                      }
-                      placeholder="Channel name..."
-                      disabled={state.isMonitoring || !!state.authError}
+                      value={channelDraft}
+                      onChange={(e) => setChannelDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") addChannel();
+                      }}
+                      placeholder="Add channel name..."
+                      disabled={!!state.authError}
                       className="flex-1 h-9 text-sm"
                     />
-                    {!state.isMonitoring ? (
+                    <Button
+                      onClick={addChannel}
+                      disabled={!!state.authError || !channelDraft.trim()}
+                      variant="outline"
+                      size="sm"
+                      className="h-9 px-3"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+
+                  {config.channels.length > 0 && (
+                    <div className="space-y-1">
+                      {config.channels.map((channelName) => {
+                        const channel = state.channels[channelName];
+                        const status = channel?.status ?? "idle";
+                        const statusStyle = CONFIG.channelStatus[status];
+                        const reconnect = channel?.reconnect ?? null;
+                        const isActive =
+                          status === "subscribed" ||
+                          status === "joining" ||
+                          status === "reconnecting";
+
+                        return (
+                          <div
+                            key={channelName}
+                            className="flex items-center gap-2 rounded-md border bg-background px-2 py-1"
+                          >
+                            <div
+                              className={cn(
+                                "w-2 h-2 rounded-full shrink-0",
+                                statusStyle.bgColor,
+                                status === "subscribed" && "animate-pulse"
+                              )}
+                            ></div>
+                            <span
+                              className="flex-1 truncate font-mono text-xs"
+                              title={channelName}
+                            >
+                              {channelName}
+                            </span>
+                            <Badge
+                              variant="outline"
+                              className={cn("text-xs", statusStyle.color)}
+                            >
+                              {statusStyle.text}
+                              {reconnect &&
+                                (reconnect.nextAttemptAt !== null
+                                  ? ` in ${Math.max(
+                                      0,
+                                      Math.ceil(
+                                        (reconnect.nextAttemptAt - now) / 1000
+                                      )
+                                    )}s`
+                                  : "…")}
+                              {reconnect &&
+                                ` · ${reconnect.attempt}/${reconnect.maxAttempts}`}
+                            </Badge>
+                            <Badge variant="secondary" className="text-xs">
+                              {channel?.messageCount ?? 0}
+                            </Badge>
+                            {isActive ? (
+                              <Button
+                                onClick={() => stopMonitoring(channelName)}
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0 text-red-500"
+                                title="Stop"
+                              >
+                                <Square className="w-3 h-3" />
+                              </Button>
+                            ) : (
+                              <Button
+                                onClick={() => startMonitoring(channelName)}
+                                disabled={!!state.authError}
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                title="Start"
+                              >
+                                <Play className="w-3 h-3" />
+                              </Button>
+                            )}
+                            <Button
+                              onClick={() => removeChannel(channelName)}
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              title="Remove channel"
+                            >
+                              <X className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {config.channels.length > 1 && (
+                    <div className="flex gap-2">
                       <Button
-                        onClick={startMonitoring}
-                        disabled={!!state.authError}
+                        onClick={startAllMonitoring}
+                        disabled={
+                          !!state.authError ||
+                          activeChannelCount === config.channels.length
+                        }
                         size="sm"
-                        className="h-9 px-3"
+                        className="flex-1 h-8"
                       >
                         <Play className="w-3 h-3 mr-1" />
-                        Start
+                        Start All
                       </Button>
-                    ) : (
                       <Button
-                        onClick={stopMonitoring}
+                        onClick={stopAllMonitoring}
+                        disabled={
+                          activeChannelCount === 0 && reconnectingCount === 0
+                        }
                         variant="destructive"
                         size="sm"
-                        className="h-9 px-3"
+                        className="flex-1 h-8"
                       >
                         <Square className="w-3 h-3 mr-1" />
-                        Stop
+                        Stop All
                       </Button>
+                    </div>
+                  )}
+
+                  <Button
+                    onClick={() => setShowAppChannels((prev) => !prev)}
+                    variant={showAppChannels ? "secondary" : "outline"}
+                    size="sm"
+                    className="w-full h-8"
+                  >
+                    <Radar className="w-3 h-3 mr-1" />
+                    App Channels
+                    {tappedTopics.length > 0 && (
+                      <Badge variant="default" className="ml-1 text-xs">
+                        {tappedTopics.length} tapped
+                      </Badge>
                     )}
-                  </div>
+                  </Button>
+
+                  {showAppChannels && (
+                    <AppChannelsPanel
+                      channels={appChannels}
+                      tappedTopics={tappedTopics}
+                      supported={!!supabase?.getChannels}
+                      onRefresh={discoverAppChannels}
+                      onTap={tapAppChannel}
+                      onUntap={untapAppChannel}
+                    />
+                  )}
 
                   {state.isMonitoring && config.enableSelfTestBroadcast && (
-                    <div className="space-y-2">
-                      <div className="flex items-center gap-2 p-2 bg-green-50 rounded-md border border-green-200">
-                        <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                        <span className="text-xs text-green-700 font-medium">
-                          Monitoring: {config.channelName}
-                        </span>
-                      </div>
+                    <BroadcastComposer
+                      channels={subscribedChannels}
+                      disabled={!!state.authError}
+                      redactor={redactor}
+                      onSend={sendBroadcast}
+                    />
+                  )}
+                </div>
+              </div>
 
+              {/* Session Recording & Replay */}
+              <div className="px-4 py-3 border-b bg-muted/30 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    ref={recordingInputRef}
+                    type="file"
+                    accept=".json,.ndjson,.csv,application/json"
+                    className="hidden"
+                    onChange={loadRecording}
+                  />
+                  {state.recording ? (
+                    <Button
+                      onClick={stopRecording}
+                      variant="destructive"
+                      size="sm"
+                      className="h-7 px-2"
+                    >
+                      <Square className="w-3 h-3 mr-1" />
+                      Stop Recording
+                      <Badge variant="secondary" className="ml-2 text-xs">
+                        {state.recording.eventCount}
+                      </Badge>
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={startRecording}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2"
+                    >
+                      <Circle className="w-3 h-3 mr-1 fill-red-500 text-red-500" />
+                      Record
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => recordingInputRef.current?.click()}
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2"
+                    title="Load a recording or capture to replay"
+                  >
+                    <FolderOpen className="w-3 h-3 mr-1" />
+                    Load
+                  </Button>
+                  {loadedRecording && (
+                    <Button
+                      onClick={() =>
+                        downloadRecording(
+                          redactor
+                            ? {
+                                ...loadedRecording,
+                                events: loadedRecording.events.map(
+                                  redactor.redactEntry
+                                ),
+                              }
+                            : loadedRecording
+                        )
+                      }
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2"
+                    >
+                      <Save className="w-3 h-3 mr-1" />
+                      Save
+                    </Button>
+                  )}
+                </div>
+
+                {loadedRecording && (
+                  <div className="space-y-2 rounded-md border bg-background p-2">
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span
+                        className="truncate font-mono"
+                        title={loadedRecording.name}
+                      >
+                        {loadedRecording.name}
+                      </span>
+                      <span className="shrink-0 text-muted-foreground">
+                        {loadedRecording.events.length} events ·{" "}
+                        {formatDuration(
+                          loadedRecording.endedAt - loadedRecording.startedAt
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {replayProgress?.status === "playing" ? (
+                        <Button
+                          onClick={pauseReplay}
+                          variant="outline"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          title="Pause"
+                        >
+                          <Pause className="w-3 h-3" />
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={playReplay}
+                          variant="outline"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          title="Play"
+                        >
+                          <Play className="w-3 h-3" />
+                        </Button>
+                      )}
                       <Button
-                        onClick={sendTestBroadcast}
-                        className="w-full h-8"
-                        disabled={!!state.authError}
+                        onClick={stepReplay}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Step to next event"
                       >
-                        <Send className="w-3 h-3 mr-2" />
-                        Send Test Broadcast
+                        <SkipForward className="w-3 h-3" />
                       </Button>
+                      <Button
+                        onClick={stopReplay}
+                        disabled={!replayProgress}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Stop replay"
+                      >
+                        <Square className="w-3 h-3" />
+                      </Button>
+                      <div className="flex items-center gap-1 ml-2">
+                        {REPLAY_SPEEDS.map((speed) => (
+                          <Badge
+                            key={speed}
+                            variant={
+                              replaySpeed === speed ? "default" : "outline"
+                            }
+                            className="text-xs cursor-pointer"
+                            onClick={() => changeReplaySpeed(speed)}
+                          >
+                            {speed}x
+                          </Badge>
+                        ))}
+                      </div>
+                      <span className="ml-auto text-xs font-mono text-muted-foreground">
+                        {replayProgress?.position ?? 0}/
+                        {loadedRecording.events.length}
+                      </span>
                     </div>
-                  )}
-                </div>
+                    <div className="bg-muted rounded-full h-1">
+                      <div
+                        className="bg-primary rounded-full h-1 transition-all duration-300"
+                        style={{
+                          width: `${
+                            loadedRecording.events.length > 0
+                              ? ((replayProgress?.position ?? 0) /
+                                  loadedRecording.events.length) *
+                                100
+                              : 0
+                          }%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {/* Offline Capture Banner */}
+              {offline && (
+                <div className="px-4 py-2 border-b bg-blue-50 border-blue-200">
+                  <div className="flex items-center gap-2">
+                    <FileText className="w-4 h-4 text-blue-600 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p
+                        className="text-xs font-semibold text-blue-800 truncate"
+                        title={offline.fileName}
+                      >
+                        Offline capture: {offline.fileName}
+                      </p>
+                      <p className="text-xs text-blue-700">
+                        {offline.logs.length} logs · exported{" "}
+                        {new Date(offline.exportedAt).toLocaleString()} ·
+                        read-only
+                      </p>
+                    </div>
+                    <Button
+                      onClick={closeCapture}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2"
+                    >
+                      Back to live
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {/* Logs Header */}
               <div className="p-4 border-b bg-muted/30">
                 <div className="flex items-center justify-between">
@@ -1150,13 +2062,50 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                     <h3 className="text-sm font-semibold">
                       Logs
                       <Badge variant="outline" className="ml-2 text-xs">
-                        {filteredLogs.length}
+                        {filteredLogs.size}
                       </Badge>
                     </h3>
                   </div>
                   <div className="flex items-center gap-2">
+                    <input
+                      ref={importInputRef}
+                      type="file"
+                      accept=".json,.ndjson,.csv,application/json,text/csv"
+                      className="hidden"
+                      onChange={importCapture}
+                    />
+                    <Button
+                      onClick={() => importInputRef.current?.click()}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2"
+                      title="Open a capture file"
+                    >
+                      <Upload className="w-3 h-3 mr-1" />
+                      Import
+                    </Button>
+                    <Button
+                      onClick={() => setShowSessions((prev) => !prev)}
+                      variant={showSessions ? "secondary" : "outline"}
+                      size="sm"
+                      className="h-7 px-2"
+                      title="Browse saved sessions"
+                    >
+                      <History className="w-3 h-3 mr-1" />
+                      Sessions
+                    </Button>
+                    <Button
+                      onClick={() => setShowExportPanel((prev) => !prev)}
+                      variant={showExportPanel ? "secondary" : "outline"}
+                      size="sm"
+                      className="h-7 px-2"
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      Export
+                    </Button>
                     <Button
                       onClick={clearLogs}
+                      disabled={!!offline}
                       variant="outline"
                       size="sm"
                       className="h-7 px-2"
@@ -1166,47 +2115,220 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                     </Button>
                   </div>
                 </div>
+
+                {showSessions && (
+                  <div className="mt-3">
+                    <SessionBrowser
+                      sessions={storedSessions}
+                      currentSessionId={currentSessionId}
+                      supported={isLogStoreSupported()}
+                      onRefresh={refreshSessions}
+                      onOpen={openSession}
+                      onRename={renameSession}
+                      onDelete={deleteSession}
+                    />
+                  </div>
+                )}
+
+                {showExportPanel && (
+                  <div className="flex items-center gap-2 mt-3 p-2 rounded-md border bg-background">
+                    <div className="flex items-center gap-1">
+                      <Badge
+                        variant={exportScope === "all" ? "default" : "outline"}
+                        className="text-xs cursor-pointer"
+                        onClick={() => setExportScope("all")}
+                      >
+                        All ({viewLogs.size})
+                      </Badge>
+                      <Badge
+                        variant={
+                          exportScope === "filtered" ? "default" : "outline"
+                        }
+                        className="text-xs cursor-pointer"
+                        onClick={() => setExportScope("filtered")}
+                      >
+                        Filtered ({filteredLogs.size})
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-1 ml-auto">
+                      {(["json", "ndjson", "csv"] as const).map((format) => (
+                        <Button
+                          key={format}
+                          onClick={() => exportLogs(format)}
+                          variant="outline"
+                          size="sm"
+                          className="h-6 px-2 text-xs uppercase"
+                        >
+                          {format}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {viewChannels.length > 1 && (
+                  <div className="flex items-center gap-1 mt-3 flex-wrap">
+                    <Badge
+                      variant={channelFilter === null ? "default" : "outline"}
+                      className="text-xs cursor-pointer"
+                      onClick={() => setChannelFilter(null)}
+                    >
+                      All channels
+                    </Badge>
+                    {viewChannels.map((channelName) => (
+                      <Badge
+                        key={channelName}
+                        variant={
+                          channelFilter === channelName ? "default" : "outline"
+                        }
+                        className="text-xs font-mono cursor-pointer max-w-[140px] truncate"
+                        title={channelName}
+                        onClick={() => setChannelFilter(channelName)}
+                      >
+                        #{channelName}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {!offline && remoteTabIds.length > 0 && (
+                  <div className="flex items-center gap-1 mt-3 flex-wrap">
+                    <Badge
+                      variant={tabFilter === null ? "default" : "outline"}
+                      className="text-xs cursor-pointer"
+                      onClick={() => setTabFilter(null)}
+                    >
+                      All tabs
+                    </Badge>
+                    {[tabId, ...remoteTabIds].map((id) => (
+                      <Badge
+                        key={id}
+                        variant={tabFilter === id ? "default" : "outline"}
+                        className="text-xs font-mono cursor-pointer"
+                        title={
+                          id === tabId
+                            ? "This tab"
+                            : connectedTabs.includes(id)
+                            ? "Another tab"
+                            : "A tab that has closed"
+                        }
+                        onClick={() => setTabFilter(id)}
+                      >
+                        {id === tabId ? `this tab (${id})` : `tab ${id}`}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {/* Filter Bar */}
+                <div className="mt-3 space-y-1">
+                  <div className="relative">
+                    <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
+                    <Input
+                      value={logQueryText}
+                      onChange={(e) => setLogQueryText(e.target.value)}
+                      placeholder="Search... e.g. source:database -type:error /user_\d+/"
+                      className={cn(
+                        "h-8 pl-7 pr-7 text-xs font-mono",
+                        logQuery.error && "border-red-500"
+                      )}
+                    />
+                    {logQueryText && (
+                      <Button
+                        onClick={() => setLogQueryText("")}
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-1 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+                        title="Clear search"
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                  {logQuery.error ? (
+                    <p className="text-xs text-red-500">{logQuery.error}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Fields: source, type, event, table, schema, channel,
+                      binding, message or a details path like new.id:42. Prefix
+                      with - to negate, wrap in /.../ for regex.
+                    </p>
+                  )}
+                </div>
               </div>
 
               {/* Logs Display */}
               <div className="flex-1 overflow-hidden">
-                <ScrollArea
-                  className="h-[calc(100vh-350px)]"
-                  ref={logContainerRef}
-                >
-                  {filteredLogs.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-64 text-center p-8">
-                      <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
-                        <MessageSquare className="w-8 h-8 text-muted-foreground" />
-                      </div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                        No logs yet
-                      </h4>
-                      <p className="text-xs text-muted-foreground">
-                        {state.authError
-                          ? "Fix connection to see logs"
-                          : state.isMonitoring
-                          ? "Waiting for activity..."
-                          : "Start monitoring to see logs"}
-                      </p>
-                    </div>
-                  ) : (
-                    <div className="p-3 space-y-2">
-                      {filteredLogs.map((log) => (
-                        <LogEntryComponent
-                          key={log.id}
-                          log={log}
-                          isExpanded={state.expandedLogs.has(log.id)}
-                          onToggleDetails={toggleLogDetails}
-                        />
-                      ))}
+                {filteredLogs.size === 0 ? (
+                  <div className="flex flex-col items-center justify-center h-64 text-center p-8">
+                    <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                      <MessageSquare className="w-8 h-8 text-muted-foreground" />
                     </div>
-                  )}
-                  <ScrollBar orientation="vertical" />
-                </ScrollArea>
+                    <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                      {viewLogs.size > 0 ? "No matching logs" : "No logs yet"}
+                    </h4>
+                    <p className="text-xs text-muted-foreground">
+                      {viewLogs.size > 0
+                        ? "Adjust the search or channel filter"
+                        : state.authError
+                        ? "Fix connection to see logs"
+                        : state.isMonitoring
+                        ? "Waiting for activity..."
+                        : "Start monitoring to see logs"}
+                    </p>
+                  </div>
+                ) : (
+                  <VirtualLogList
+                    logs={filteredLogs}
+                    renderLog={renderLog}
+                    scrollRef={logContainerRef}
+                    className="h-[calc(100vh-350px)]"
+                  />
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="presence" className="flex-1 p-4">
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Users className="w-4 h-4 text-muted-foreground" />
+                  <h3 className="text-sm font-semibold">Presence State</h3>
+                </div>
+
+                {!config.enablePresence && (
+                  <p className="text-xs text-muted-foreground">
+                    Presence events are disabled in Settings, so the state below
+                    will not update.
+                  </p>
+                )}
+
+                <PresenceInspector
+                  channels={subscribedChannels}
+                  presence={state.presence}
+                  disabled={!!state.authError}
+                  onTrack={updateTrackedPresence}
+                  onUntrack={untrackPresence}
+                />
               </div>
             </TabsContent>
 
+            <TabsContent value="rows" className="flex-1 p-4">
+              <RowHistoryInspector
+                history={viewRowHistory}
+                followedRowId={followedRowId}
+                onFollow={setFollowedRowId}
+              />
+            </TabsContent>
+
+            <TabsContent value="wire" className="flex-1 p-4">
+              <WireInspector
+                wire={state.wire}
+                supported={canTapWire(supabase?.realtime)}
+                onToggleCapture={toggleWireCapture}
+                onClear={() => dispatch({ type: "CLEAR_WIRE_FRAMES" })}
+              />
+            </TabsContent>
+
             <TabsContent value="stats" className="flex-1 p-4">
               <div className="space-y-4">
                 <div className="flex items-center gap-2">
@@ -1240,17 +2362,64 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">
-                              Channel:
+                              Channels:
                             </span>
+                            <Badge variant="outline">
+                              {activeChannelCount}/{config.channels.length}
+                            </Badge>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Auth:</span>
                             <Tooltip>
                               <TooltipTrigger asChild>
-                                <Badge variant="outline">
-                                  {config.channelName.substring(0, 15)}
-                                  {config.channelName.length > 15 && "..."}
+                                <Badge
+                                  variant={
+                                    state.isAuthenticated
+                                      ? "outline"
+                                      : "destructive"
+                                  }
+                                  className="text-xs"
+                                >
+                                  {state.authInfo.lastEvent ??
+                                    (state.isAuthenticated
+                                      ? "SIGNED_IN"
+                                      : "SIGNED_OUT")}
                                 </Badge>
                               </TooltipTrigger>
                               <TooltipContent>
-                                <p>Channel: {config.channelName}</p>
+                                <p>
+                                  {state.authInfo.lastEventAt
+                                    ? `Last auth event at ${new Date(
+                                        state.authInfo.lastEventAt
+                                      ).toLocaleTimeString()}`
+                                    : "No auth event since the panel loaded"}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">
+                              Token:
+                            </span>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className="font-mono text-xs">
+                                  {state.authInfo.accessTokenUpdatedAt
+                                    ? new Date(
+                                        state.authInfo.accessTokenUpdatedAt
+                                      ).toLocaleTimeString()
+                                    : "None"}
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>
+                                  Realtime access token last updated
+                                  {state.authInfo.accessTokenExpiresAt
+                                    ? `, expires at ${new Date(
+                                        state.authInfo.accessTokenExpiresAt
+                                      ).toLocaleTimeString()}`
+                                    : ""}
+                                </p>
                               </TooltipContent>
                             </Tooltip>
                           </div>
@@ -1269,7 +2438,7 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                               Total:
                             </span>
                             <Badge variant="outline">
-                              {state.stats.totalMessages}
+                              {viewStats.totalMessages}
                             </Badge>
                           </div>
                           <div className="flex justify-between">
@@ -1277,7 +2446,7 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                               Broadcast:
                             </span>
                             <Badge variant="secondary">
-                              {state.stats.messageTypes.broadcast}
+                              {viewStats.messageTypes.broadcast}
                             </Badge>
                           </div>
                           <div className="flex justify-between">
@@ -1285,7 +2454,7 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                               Database:
                             </span>
                             <Badge variant="secondary">
-                              {state.stats.messageTypes.database}
+                              {viewStats.messageTypes.database}
                             </Badge>
                           </div>
                         </div>
@@ -1303,7 +2472,7 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                               Presence:
                             </span>
                             <Badge variant="secondary">
-                              {state.stats.messageTypes.presence}
+                              {viewStats.messageTypes.presence}
                             </Badge>
                           </div>
                           <div className="flex justify-between">
@@ -1311,7 +2480,7 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                               System:
                             </span>
                             <Badge variant="secondary">
-                              {state.stats.messageTypes.system}
+                              {viewStats.messageTypes.system}
                             </Badge>
                           </div>
                           <div className="flex justify-between">
@@ -1319,8 +2488,8 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                               Last Activity:
                             </span>
                             <span className="font-mono text-xs">
-                              {state.stats.lastActivity
-                                ? state.stats.lastActivity.toLocaleTimeString()
+                              {viewStats.lastActivity
+                                ? viewStats.lastActivity.toLocaleTimeString()
                                 : "None"}
                             </span>
                           </div>
@@ -1338,15 +2507,13 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                             <span className="text-muted-foreground">
                               Total:
                             </span>
-                            <Badge variant="outline">{state.logs.length}</Badge>
+                            <Badge variant="outline">{viewLogs.size}</Badge>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">
                               Filtered:
                             </span>
-                            <Badge variant="outline">
-                              {filteredLogs.length}
-                            </Badge>
+                            <Badge variant="outline">{filteredLogs.size}</Badge>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Max:</span>
@@ -1358,6 +2525,145 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                   </Card>
                 </div>
 
+                {/* Per-Channel Breakdown */}
+                {!offline && config.channels.length > 0 && (
+                  <Card>
+                    <CardContent className="p-4">
+                      <h4 className="text-sm font-medium mb-3">Channels</h4>
+                      <div className="space-y-2">
+                        {config.channels.map((channelName) => {
+                          const channel = state.channels[channelName];
+                          const statusStyle =
+                            CONFIG.channelStatus[channel?.status ?? "idle"];
+
+                          return (
+                            <div
+                              key={channelName}
+                              className="flex items-center gap-3 text-xs"
+                            >
+                              <div
+                                className={cn(
+                                  "w-2 h-2 rounded-full shrink-0",
+                                  statusStyle.bgColor
+                                )}
+                              ></div>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <span className="flex-1 truncate font-mono">
+                                    {channelName}
+                                  </span>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Channel: {channelName}</p>
+                                </TooltipContent>
+                              </Tooltip>
+                              <span
+                                className={cn(
+                                  "w-20 text-right",
+                                  statusStyle.color
+                                )}
+                              >
+                                {statusStyle.text}
+                              </span>
+                              <span className="w-20 text-right font-mono text-muted-foreground">
+                                {channel?.lastActivity
+                                  ? channel.lastActivity.toLocaleTimeString()
+                                  : "—"}
+                              </span>
+                              <span className="w-8 text-right font-mono">
+                                {channel?.messageCount ?? 0}
+                              </span>
+                              <span
+                                className="w-8 text-right font-mono text-muted-foreground"
+                                title="Reconnect cycles"
+                              >
+                                ↻{channel?.reconnectCount ?? 0}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Socket Health */}
+                {!offline && (
+                  <SocketHealthPanel
+                    socket={state.socket}
+                    uptime={state.stats.uptime}
+                  />
+                )}
+
+                {/* Reconnect Cycles */}
+                {!offline && (
+                  <Card>
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-sm font-medium">Reconnects</h4>
+                        <div className="flex gap-1">
+                          <Badge variant="outline" className="text-xs">
+                            {reconnectSummary.recovered} recovered
+                          </Badge>
+                          <Badge
+                            variant="outline"
+                            className={cn(
+                              "text-xs",
+                              reconnectSummary.failed > 0 && "text-red-600"
+                            )}
+                          >
+                            {reconnectSummary.failed} failed
+                          </Badge>
+                        </div>
+                      </div>
+                      {state.reconnectCycles.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">
+                          No channel has dropped yet.
+                        </p>
+                      ) : (
+                        <div className="space-y-1">
+                          {state.reconnectCycles.slice(0, 10).map((cycle) => (
+                            <div
+                              key={`${cycle.channelName}-${cycle.startedAt}`}
+                              className="flex items-center gap-2 text-xs"
+                            >
+                              <span className="w-16 font-mono text-muted-foreground">
+                                {new Date(cycle.startedAt).toLocaleTimeString()}
+                              </span>
+                              <span
+                                className="flex-1 truncate"
+                                title={cycle.reason}
+                              >
+                                <span className="font-mono">
+                                  #{cycle.channelName}
+                                </span>{" "}
+                                {cycle.reason}
+                              </span>
+                              <span className="font-mono text-muted-foreground">
+                                {cycle.attempts}× ·{" "}
+                                {formatDuration(
+                                  cycle.endedAt - cycle.startedAt
+                                )}
+                              </span>
+                              <Badge
+                                variant="outline"
+                                className={cn(
+                                  "text-xs",
+                                  cycle.outcome === "recovered" &&
+                                    "text-green-600",
+                                  cycle.outcome === "failed" && "text-red-600"
+                                )}
+                              >
+                                {cycle.outcome}
+                              </Badge>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Message Type Distribution */}
                 <Card>
                   <CardContent className="p-4">
@@ -1365,7 +2671,7 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                       Message Distribution
                     </h4>
                     <div className="space-y-2">
-                      {Object.entries(state.stats.messageTypes).map(
+                      {Object.entries(viewStats.messageTypes).map(
                         ([type, count]) => (
                           <div key={type} className="flex items-center gap-3">
                             <span className="text-xs text-muted-foreground w-16 capitalize">
@@ -1376,9 +2682,9 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                                 className="bg-primary rounded-full h-2 transition-all duration-300"
                                 style={{
                                   width:
-                                    state.stats.totalMessages > 0
+                                    viewStats.totalMessages > 0
                                       ? `${
-                                          (count / state.stats.totalMessages) *
+                                          (count / viewStats.totalMessages) *
                                           100
                                         }%`
                                       : "0%",
@@ -1394,6 +2700,43 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                     </div>
                   </CardContent>
                 </Card>
+
+                {/* Throughput */}
+                {!offline && (
+                  <ThroughputChart
+                    buckets={state.throughput}
+                    windowMs={config.throughputWindow}
+                    onWindowChange={(throughputWindow) =>
+                      updateConfig({ throughputWindow })
+                    }
+                  />
+                )}
+
+                {/* Payload Sizes */}
+                <PayloadSizePanel
+                  sizes={viewPayloadSizes}
+                  limit={
+                    offline
+                      ? offline.config.payloadSizeLimit ??
+                        DEFAULT_PAYLOAD_SIZE_LIMIT
+                      : config.payloadSizeLimit
+                  }
+                />
+
+                {/* Latency Probe */}
+                {!offline && (
+                  <LatencyPanel
+                    latency={state.latency}
+                    intervalMs={config.latencyProbeInterval}
+                    disabled={!state.isAuthenticated || !!state.authError}
+                    onStart={startLatencyProbe}
+                    onStop={stopLatencyProbe}
+                    onClear={() => dispatch({ type: "CLEAR_LATENCY_SAMPLES" })}
+                    onIntervalChange={(latencyProbeInterval) =>
+                      updateConfig({ latencyProbeInterval })
+                    }
+                  />
+                )}
               </div>
             </TabsContent>
 
@@ -1465,10 +2808,10 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                             <div className="flex items-center justify-between">
                               <div className="space-y-1">
                                 <span className="text-sm">
-                                  Allow Self Test Broadcast
+                                  Broadcast Composer
                                 </span>
                                 <p className="text-xs text-muted-foreground">
-                                  Allow self test broadcast of events
+                                  Send custom broadcasts to monitored channels
                                 </p>
                               </div>
                               <Switch
@@ -1486,6 +2829,418 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                       </CardContent>
                     </Card>
 
+                    <Card className="mt-4">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="space-y-1">
+                            <h4 className="text-sm font-medium">
+                              Database Bindings
+                            </h4>
+                            <p className="text-xs text-muted-foreground">
+                              postgres_changes subscriptions made on every
+                              monitored channel. Each binding labels the events
+                              it delivers.
+                            </p>
+                          </div>
+                          <PostgresBindingsEditor
+                            bindings={config.postgresBindings}
+                            onChange={(postgresBindings) =>
+                              updateConfig({ postgresBindings })
+                            }
+                            disabled={
+                              state.isMonitoring || !config.enableDatabase
+                            }
+                          />
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="mt-4">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                              <h4 className="text-sm font-medium">
+                                Auto-Reconnect
+                              </h4>
+                              <p className="text-xs text-muted-foreground">
+                                Resubscribe dropped channels with exponential
+                                backoff and jitter
+                              </p>
+                            </div>
+                            <Switch
+                              checked={config.autoReconnect}
+                              onCheckedChange={(checked) =>
+                                updateConfig({ autoReconnect: checked })
+                              }
+                            />
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-1">
+                              <span className="text-xs text-muted-foreground">
+                                Max attempts
+                              </span>
+                              <Input
+                                type="number"
+                                value={config.reconnectMaxAttempts}
+                                onChange={(e) =>
+                                  updateConfig({
+                                    reconnectMaxAttempts: Math.max(
+                                      1,
+                                      Math.min(
+                                        20,
+                                        parseInt(e.target.value) || 5
+                                      )
+                                    ),
+                                  })
+                                }
+                                min="1"
+                                max="20"
+                                disabled={!config.autoReconnect}
+                                className="h-8"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <span className="text-xs text-muted-foreground">
+                                First delay (ms)
+                              </span>
+                              <Input
+                                type="number"
+                                value={config.reconnectBaseDelay}
+                                onChange={(e) =>
+                                  updateConfig({
+                                    reconnectBaseDelay: Math.max(
+                                      250,
+                                      Math.min(
+                                        RECONNECT_MAX_DELAY,
+                                        parseInt(e.target.value) || 1000
+                                      )
+                                    ),
+                                  })
+                                }
+                                min="250"
+                                max={RECONNECT_MAX_DELAY}
+                                step="250"
+                                disabled={!config.autoReconnect}
+                                className="h-8"
+                              />
+                            </div>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Each attempt doubles the delay, up to{" "}
+                            {RECONNECT_MAX_DELAY / 1000}s.
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="mt-4">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="space-y-1">
+                            <h4 className="text-sm font-medium">
+                              Payload Size Limit
+                            </h4>
+                            <p className="text-xs text-muted-foreground">
+                              Warn when a broadcast or postgres_changes payload
+                              reaches {Math.round(PAYLOAD_WARN_RATIO * 100)}% of
+                              this size
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              value={Math.round(config.payloadSizeLimit / 1024)}
+                              onChange={(e) =>
+                                updateConfig({
+                                  payloadSizeLimit:
+                                    Math.max(
+                                      1,
+                                      parseInt(e.target.value) ||
+                                        DEFAULT_PAYLOAD_SIZE_LIMIT / 1024
+                                    ) * 1024,
+                                })
+                              }
+                              min="1"
+                              className="h-8"
+                            />
+                            <span className="text-xs text-muted-foreground">
+                              KB
+                            </span>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="mt-4">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="space-y-1">
+                            <h4 className="text-sm font-medium">
+                              Batching & Backpressure
+                            </h4>
+                            <p className="text-xs text-muted-foreground">
+                              Incoming events are logged together in batches.
+                              Beyond the limit per batch, the policy decides
+                              which broadcast, database and presence events are
+                              dropped.
+                            </p>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-1">
+                              <span className="text-xs text-muted-foreground">
+                                Batch every
+                              </span>
+                              <select
+                                value={config.batchMode}
+                                onChange={(e) =>
+                                  updateConfig({
+                                    batchMode: e.target
+                                      .value as DevToolsConfig["batchMode"],
+                                  })
+                                }
+                                className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                              >
+                                <option value="frame">Animation frame</option>
+                                <option value="interval">Interval</option>
+                              </select>
+                            </div>
+                            <div className="space-y-1">
+                              <span className="text-xs text-muted-foreground">
+                                Interval (ms)
+                              </span>
+                              <Input
+                                type="number"
+                                value={config.batchInterval}
+                                onChange={(e) =>
+                                  updateConfig({
+                                    batchInterval: Math.max(
+                                      16,
+                                      Math.min(
+                                        5000,
+                                        parseInt(e.target.value) || 100
+                                      )
+                                    ),
+                                  })
+                                }
+                                min="16"
+                                max="5000"
+                                disabled={config.batchMode !== "interval"}
+                                className="h-8"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <span className="text-xs text-muted-foreground">
+                                Policy
+                              </span>
+                              <select
+                                value={config.backpressure}
+                                onChange={(e) =>
+                                  updateConfig({
+                                    backpressure: e.target
+                                      .value as DevToolsConfig["backpressure"],
+                                  })
+                                }
+                                className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                              >
+                                {BACKPRESSURE_POLICIES.map(
+                                  ({ value, label }) => (
+                                    <option key={value} value={value}>
+                                      {label}
+                                    </option>
+                                  )
+                                )}
+                              </select>
+                            </div>
+                            <div className="space-y-1">
+                              <span className="text-xs text-muted-foreground">
+                                Max events per batch
+                              </span>
+                              <Input
+                                type="number"
+                                value={config.maxEventsPerBatch}
+                                onChange={(e) =>
+                                  updateConfig({
+                                    maxEventsPerBatch: Math.max(
+                                      1,
+                                      parseInt(e.target.value) || 500
+                                    ),
+                                  })
+                                }
+                                min="1"
+                                disabled={config.backpressure === "none"}
+                                className="h-8"
+                              />
+                            </div>
+                          </div>
+                          {config.backpressure === "drop-events" && (
+                            <Input
+                              value={droppedEventsDraft}
+                              onChange={(e) =>
+                                setDroppedEventsDraft(e.target.value)
+                              }
+                              onBlur={commitDroppedEvents}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") commitDroppedEvents();
+                              }}
+                              placeholder="Event names to drop, e.g. cursor, typing"
+                              className="h-8 text-xs font-mono"
+                            />
+                          )}
+                          {state.dropped.total > 0 && (
+                            <div className="flex items-center justify-between gap-2">
+                              <p
+                                className="truncate text-xs text-yellow-600"
+                                title={formatDroppedEvents(state.dropped)}
+                              >
+                                {state.dropped.total} dropped:{" "}
+                                {formatDroppedEvents(state.dropped)}
+                              </p>
+                              <span className="shrink-0 text-xs text-muted-foreground">
+                                Cleared with the logs
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="mt-4">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="space-y-1">
+                            <h4 className="text-sm font-medium">Redaction</h4>
+                            <p className="text-xs text-muted-foreground">
+                              Mask matching values as they are logged, in wire
+                              frames and presence state, and in everything
+                              exported. Entries already logged keep the rules
+                              they were logged with.
+                            </p>
+                          </div>
+                          <RedactionRulesEditor
+                            rules={config.redactionRules}
+                            onChange={(redactionRules) =>
+                              updateConfig({ redactionRules })
+                            }
+                          />
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="mt-4">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                              <h4 className="text-sm font-medium">
+                                Persist Logs
+                              </h4>
+                              <p className="text-xs text-muted-foreground">
+                                {isLogStoreSupported()
+                                  ? "Save logs to IndexedDB, one session per page load, and reopen them from Sessions on the Monitor tab"
+                                  : "This browser has no IndexedDB"}
+                              </p>
+                            </div>
+                            <Switch
+                              checked={config.persistLogs}
+                              onCheckedChange={(checked) =>
+                                updateConfig({ persistLogs: checked })
+                              }
+                              disabled={!isLogStoreSupported()}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-muted-foreground">
+                              Sessions kept
+                            </span>
+                            <Input
+                              type="number"
+                              value={config.sessionLimit}
+                              onChange={(e) =>
+                                updateConfig({
+                                  sessionLimit: clampSessionLimit(
+                                    parseInt(e.target.value) || 10
+                                  ),
+                                })
+                              }
+                              min="1"
+                              max={MAX_SESSION_LIMIT}
+                              disabled={!config.persistLogs}
+                              className="h-8 w-24"
+                            />
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Older sessions are deleted as new ones start. Logs
+                            are saved as they were logged, after redaction.
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="mt-4">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                              <h4 className="text-sm font-medium">
+                                Share Across Tabs
+                              </h4>
+                              <p className="text-xs text-muted-foreground">
+                                {isTabSyncSupported()
+                                  ? "Exchange logs with DevTools in other tabs of this origin and merge theirs into the Monitor timeline"
+                                  : "This browser has no BroadcastChannel"}
+                              </p>
+                            </div>
+                            <Switch
+                              checked={config.shareAcrossTabs}
+                              onCheckedChange={(checked) =>
+                                updateConfig({ shareAcrossTabs: checked })
+                              }
+                              disabled={!isTabSyncSupported()}
+                            />
+                          </div>
+                          <div className="flex items-center gap-1 flex-wrap">
+                            <span className="text-xs text-muted-foreground">
+                              This tab:
+                            </span>
+                            <Badge
+                              variant="outline"
+                              className="text-xs font-mono"
+                            >
+                              {tabId}
+                            </Badge>
+                            {config.shareAcrossTabs && (
+                              <>
+                                <span className="ml-2 text-xs text-muted-foreground">
+                                  Connected:
+                                </span>
+                                {connectedTabs.length === 0 ? (
+                                  <span className="text-xs text-muted-foreground">
+                                    none
+                                  </span>
+                                ) : (
+                                  connectedTabs.map((id) => (
+                                    <Badge
+                                      key={id}
+                                      variant="secondary"
+                                      className="text-xs font-mono"
+                                    >
+                                      {id}
+                                    </Badge>
+                                  ))
+                                )}
+                              </>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Other tabs&apos; logs are tagged with their tab id
+                            and ordered by the time they were received. Stats,
+                            row history and saved sessions stay per tab.
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+
                     <Card className="my-4">
                       <CardContent className="p-4">
                         <div className="space-y-3">
@@ -1532,20 +3287,16 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                               </div>
                               <Input
                                 type="number"
-                                value={config.maxLogs}
+                                value={maxLogsDraft}
                                 onChange={(e) =>
-                                  updateConfig({
-                                    maxLogs: Math.max(
-                                      10,
-                                      Math.min(
-                                        1000,
-                                        parseInt(e.target.value) || 100
-                                      )
-                                    ),
-                                  })
+                                  setMaxLogsDraft(e.target.value)
                                 }
-                                min="10"
-                                max="1000"
+                                onBlur={commitMaxLogs}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") commitMaxLogs();
+                                }}
+                                min={MIN_LOG_CAPACITY}
+                                max={MAX_LOG_CAPACITY}
                                 className="h-8"
                               />
                             </div>
@@ -1596,8 +3347,10 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                           <div className="pt-2 border-t">
                             <Button
                               onClick={() => {
+                                stopAllMonitoring();
                                 clearLogs();
                                 updateConfig(DEFAULT_CONFIG);
+                                setDroppedEventsDraft("");
                                 addLog(
                                   "info",
                                   "🔄 Settings reset to defaults",
@@ -1620,18 +3373,44 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
                 </div>
               </div>
             </TabsContent>
+
+            {pluginTabs.map(({ id, component: PluginTab }) => (
+              <TabsContent
+                key={id}
+                value={`plugin:${id}`}
+                className="flex-1 p-4"
+              >
+                <PluginTab
+                  state={state}
+                  config={config}
+                  inspector={inspector}
+                />
+              </TabsContent>
+            ))}
           </Tabs>
 
           {/* Footer Status */}
           <div className="p-3 border-t bg-muted/30">
             <div className="flex items-center justify-between text-xs text-muted-foreground">
               <div className="flex items-center gap-4">
-                <span>Channel: {config.channelName}</span>
+                <span>
+                  Channels: {activeChannelCount}/{config.channels.length}{" "}
+                  monitoring
+                </span>
                 {state.stats.lastActivity && (
                   <span>
                     Last: {state.stats.lastActivity.toLocaleTimeString()}
                   </span>
                 )}
+                {state.dropped.total > 0 && (
+                  <span
+                    className="text-yellow-600"
+                    title={formatDroppedEvents(state.dropped)}
+                  >
+                    {state.dropped.total} event
+                    {state.dropped.total === 1 ? "" : "s"} dropped
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <span>{statusInfo.text}</span>
@@ -1647,4 +3426,8 @@ const SupabaseDevTools: React.FC<SupabaseDevToolsProps> = ({
   );
 };
 
+const SupabaseDevTools = forwardRef(SupabaseDevToolsPanel);
+
+SupabaseDevTools.displayName = "SupabaseDevTools";
+
 export default SupabaseDevTools;